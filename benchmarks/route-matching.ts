@@ -0,0 +1,115 @@
+/**
+ * Benchmark: linear regex route matching vs the route tree.
+ *
+ * Builds a synthetic tRPC router with 1,000 OpenAPI procedures and times
+ * lookups of the same request paths with both matchers.
+ *
+ * Run with: npm run bench
+ */
+
+import { initTRPC } from '@trpc/server';
+import { getOpenApiRoutes, type OpenApiMeta } from '../src';
+import { createRouteTree, insertRoute, findRoute } from '../src/route-tree';
+
+const ROUTE_COUNT = 1000;
+const LOOKUPS = 200_000;
+
+// ============================================
+// Synthetic router
+// ============================================
+
+const t = initTRPC.meta<OpenApiMeta>().create();
+const procedures: Record<string, ReturnType<typeof t.procedure.query>> = {};
+
+for (let i = 0; i < ROUTE_COUNT; i++) {
+  const resource = `resource${Math.floor(i / 4)}`;
+  const shapes = [
+    { method: 'GET' as const, path: `/${resource}` },
+    { method: 'GET' as const, path: `/${resource}/{id}` },
+    { method: 'PUT' as const, path: `/${resource}/{id}` },
+    { method: 'GET' as const, path: `/${resource}/{id}/items/{itemId}` },
+  ];
+  procedures[`p${i}`] = t.procedure.meta({ openapi: shapes[i % 4] }).query(() => null);
+}
+
+const router = t.router(procedures);
+const routes = getOpenApiRoutes(router);
+
+// ============================================
+// Previous matcher: one regex per route, scanned in order
+// ============================================
+
+const linearRoutes = routes.map((route) => {
+  const params: string[] = [];
+  const pattern = route.path.replace(/\{([^}]+)\}/g, (_, param) => {
+    params.push(param);
+    return '([^/]+)';
+  });
+  return { method: route.method, regex: new RegExp(`^${pattern}$`), params, procedurePath: route.procedurePath };
+});
+
+function matchLinear(method: string, pathname: string): string | null {
+  for (const route of linearRoutes) {
+    if (route.method !== method) continue;
+    const match = route.regex.exec(pathname);
+    if (match) {
+      const params: Record<string, string> = {};
+      route.params.forEach((name, index) => {
+        params[name] = decodeURIComponent(match[index + 1]);
+      });
+      return route.procedurePath;
+    }
+  }
+  return null;
+}
+
+// ============================================
+// Route tree
+// ============================================
+
+const tree = createRouteTree<string>();
+for (const route of routes) {
+  insertRoute(tree, route.method, route.path, route.procedurePath, route.procedurePath);
+}
+
+function matchTree(method: string, pathname: string): string | null {
+  const found = findRoute(tree, pathname, method);
+  if (!found) return null;
+  const leaf = found.node.methods.get(method)!;
+  const params: Record<string, string> = {};
+  leaf.params.forEach((name, index) => {
+    params[name] = decodeURIComponent(found.values[index]);
+  });
+  return leaf.value;
+}
+
+// ============================================
+// Run
+// ============================================
+
+const requests = routes.map((route) => ({
+  method: route.method,
+  pathname: route.path.replace(/\{[^}]+\}/g, '42'),
+}));
+
+function run(name: string, match: (method: string, pathname: string) => string | null): void {
+  // Warm up
+  for (const { method, pathname } of requests) match(method, pathname);
+
+  const start = process.hrtime.bigint();
+  let hits = 0;
+  for (let i = 0; i < LOOKUPS; i++) {
+    const { method, pathname } = requests[i % requests.length];
+    if (match(method, pathname)) hits++;
+  }
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+  console.log(
+    `${name.padEnd(8)} ${elapsedMs.toFixed(1).padStart(9)} ms  ` +
+      `${((LOOKUPS / elapsedMs) * 1000).toFixed(0).padStart(10)} ops/s  (${hits} hits)`
+  );
+}
+
+console.log(`${routes.length} routes, ${LOOKUPS} lookups`);
+run('linear', matchLinear);
+run('tree', matchTree);
@@ -1,8 +1,22 @@
-import type { FastifyPluginAsync, FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type {
+  FastifyPluginAsync,
+  FastifyInstance,
+  FastifyRequest,
+  FastifyReply,
+  HTTPMethods,
+} from 'fastify';
 import type { AnyRouter, TRPCError } from '@trpc/server';
-import type { OpenApiRequest, CreateContextFn } from '../handler';
-import { createOpenApiHandler } from '../handler';
+import type { OpenApiRequest, OpenApiResponse, CreateContextFn, ResponseMetaFn, AuthorizeFn } from '../handler';
+import type { OpenApiSecurityRequirement } from '../types';
+import type { OpenApiMockOptions } from '../mock';
+import { createAdapterHandler } from '../mock';
+import type { OpenApiDocsOptions } from '../docs';
+import type { CorsOptions } from '../cors';
+import type { SseOptions } from '../sse';
+import { isAsyncIterable } from '../sse';
+import { buildOpenApiDocs } from '../docs';
 import fp from 'fastify-plugin';
+import { Readable } from 'stream';
 
 /**
  * Options for the Fastify OpenAPI plugin
@@ -21,18 +35,38 @@ export interface FastifyOpenApiPluginOptions<TContext> {
     req: FastifyRequest;
     ctx: TContext | undefined;
   }) => void;
+  /** Adjust status and headers of each response */
+  responseMeta?: ResponseMetaFn<TContext>;
+  /** CORS handling, including preflight */
+  cors?: CorsOptions;
+  /** Validate the router's OpenAPI metadata at registration */
+  strict?: boolean;
+  /** Server-Sent Events settings for subscriptions */
+  sse?: SseOptions;
+  /** Default security requirements (as given to `generateOpenApiDocument`) */
+  security?: OpenApiSecurityRequirement[];
+  /** Authorization of routes with security requirements (see `createOpenApiHandler`) */
+  authorize?: AuthorizeFn<TContext>;
+  /** Answer with mock data instead of running resolvers (see `createOpenApiMockHandler`) */
+  mock?: OpenApiMockOptions;
+  /** Serve the OpenAPI document (JSON/YAML) and an HTML reference page */
+  docs?: OpenApiDocsOptions;
 }
 
 /**
  * Convert Fastify request to OpenApiRequest
  */
-function toOpenApiRequest(req: FastifyRequest): OpenApiRequest {
+function toOpenApiRequest(req: FastifyRequest, reply: FastifyReply): OpenApiRequest {
   const headers: Record<string, string | string[] | undefined> = {};
 
   for (const [key, value] of Object.entries(req.headers)) {
     headers[key.toLowerCase()] = value as string | string[] | undefined;
   }
 
+  // End subscriptions when the client goes away
+  const controller = new AbortController();
+  reply.raw.on('close', () => controller.abort());
+
   return {
     method: req.method,
     url: req.url,
@@ -40,9 +74,75 @@ function toOpenApiRequest(req: FastifyRequest): OpenApiRequest {
     body: req.body,
     query: req.query as Record<string, string | string[] | undefined>,
     params: req.params as Record<string, string>,
+    signal: controller.signal,
   };
 }
 
+/**
+ * Send an OpenApiResponse through Fastify, streaming SSE, NDJSON and file bodies
+ */
+function sendOpenApiResponse(reply: FastifyReply, response: OpenApiResponse): FastifyReply {
+  for (const [key, value] of Object.entries(response.headers)) {
+    reply.header(key, value);
+  }
+
+  const { body } = response;
+  const payload = body instanceof Readable || !isAsyncIterable(body) ? body : Readable.from(body);
+  return reply.status(response.status).send(payload);
+}
+
+/**
+ * Hand multipart (as a Buffer) and form (as a string) bodies to the handler, which
+ * parses them against the route's schema and upload limits.
+ * Parsers already registered by the application are left in place.
+ */
+function registerBodyParsers(fastify: FastifyInstance): void {
+  if (!fastify.hasContentTypeParser('multipart/form-data')) {
+    fastify.addContentTypeParser('multipart/form-data', { parseAs: 'buffer' }, (_req, body, done) => {
+      done(null, body);
+    });
+  }
+
+  if (!fastify.hasContentTypeParser('application/x-www-form-urlencoded')) {
+    fastify.addContentTypeParser(
+      'application/x-www-form-urlencoded',
+      { parseAs: 'string' },
+      (_req, body, done) => {
+        done(null, body);
+      }
+    );
+  }
+}
+
+/**
+ * Register routes serving the OpenAPI document and reference page.
+ * The document is generated once, here, and served from memory.
+ */
+function registerDocsRoutes(
+  fastify: FastifyInstance,
+  router: AnyRouter,
+  basePath: string,
+  docs: OpenApiDocsOptions
+): void {
+  const content = buildOpenApiDocs(router, docs, basePath);
+
+  fastify.get(`${basePath}${content.jsonPath}`, async (_req, reply) => {
+    reply.header('Content-Type', 'application/json; charset=utf-8').send(content.json);
+  });
+
+  if (content.yamlPath) {
+    fastify.get(`${basePath}${content.yamlPath}`, async (_req, reply) => {
+      reply.header('Content-Type', 'application/yaml; charset=utf-8').send(content.yaml);
+    });
+  }
+
+  if (content.uiPath) {
+    fastify.get(`${basePath}${content.uiPath}`, async (_req, reply) => {
+      reply.header('Content-Type', 'text/html; charset=utf-8').send(content.html);
+    });
+  }
+}
+
 /**
  * Fastify plugin for tRPC OpenAPI
  *
@@ -57,6 +157,7 @@ function toOpenApiRequest(req: FastifyRequest): OpenApiRequest {
  *   router: appRouter,
  *   createContext: ({ req }) => createContext(req),
  *   basePath: '/api/v1',
+ *   docs: { title: 'My API', version: '1.0.0' }, // serves /api/v1/openapi.json and /api/v1/docs
  * });
  * ```
  */
@@ -64,10 +165,16 @@ async function fastifyOpenApiPluginImpl<TContext>(
   fastify: FastifyInstance,
   opts: FastifyOpenApiPluginOptions<TContext>
 ): Promise<void> {
-  const { router, createContext, basePath = '', onError } = opts;
+  const { router, createContext, basePath = '', onError, responseMeta, cors, strict, sse, security, authorize, mock, docs } = opts;
+
+  if (docs) {
+    registerDocsRoutes(fastify, router, basePath, docs);
+  }
+
+  registerBodyParsers(fastify);
 
   // Create the handler
-  const handler = createOpenApiHandler({
+  const handler = createAdapterHandler({
     router,
     createContext: async ({ req, info }) => {
       // Convert back to allow access to raw Fastify request if needed
@@ -80,25 +187,25 @@ async function fastifyOpenApiPluginImpl<TContext>(
           onError({ error, path, req: req as unknown as FastifyRequest, ctx });
         }
       : undefined,
+    responseMeta,
+    cors,
+    strict,
+    sse,
+    security,
+    authorize,
+    mock,
   });
 
   // Register a catch-all route
   fastify.all(`${basePath}/*`, async (req: FastifyRequest, reply: FastifyReply) => {
-    const openApiReq = toOpenApiRequest(req);
+    const openApiReq = toOpenApiRequest(req, reply);
 
     // Adjust URL to remove basePath for matching
     if (basePath) {
       openApiReq.url = openApiReq.url.slice(basePath.length);
     }
 
-    const response = await handler(openApiReq);
-
-    // Set headers
-    for (const [key, value] of Object.entries(response.headers)) {
-      reply.header(key, value);
-    }
-
-    return reply.status(response.status).send(response.body);
+    return sendOpenApiResponse(reply, await handler(openApiReq));
   });
 }
 
@@ -127,15 +234,18 @@ export const fastifyOpenApiPlugin: FastifyPluginAsync<FastifyOpenApiPluginOption
  * server.get('/api/*', handler);
  * server.post('/api/*', handler);
  * ```
+ *
+ * Multipart uploads need the body as a Buffer, and form posts as a string:
+ * `server.addContentTypeParser('multipart/form-data', { parseAs: 'buffer' }, (_req, body, done) => done(null, body))`.
  */
 export function createFastifyHandler<TContext>(
-  opts: Omit<FastifyOpenApiPluginOptions<TContext>, 'basePath'> & {
+  opts: Omit<FastifyOpenApiPluginOptions<TContext>, 'basePath' | 'docs'> & {
     basePath?: string;
   }
 ): (req: FastifyRequest, reply: FastifyReply) => Promise<void> {
-  const { router, createContext, basePath = '', onError } = opts;
+  const { router, createContext, basePath = '', onError, responseMeta, cors, strict, sse, security, authorize, mock } = opts;
 
-  const handler = createOpenApiHandler({
+  const handler = createAdapterHandler({
     router,
     createContext,
     onError: onError
@@ -143,24 +253,24 @@ export function createFastifyHandler<TContext>(
           onError({ error, path, req: req as unknown as FastifyRequest, ctx });
         }
       : undefined,
+    responseMeta,
+    cors,
+    strict,
+    sse,
+    security,
+    authorize,
+    mock,
   });
 
   return async (req: FastifyRequest, reply: FastifyReply): Promise<void> => {
-    const openApiReq = toOpenApiRequest(req);
+    const openApiReq = toOpenApiRequest(req, reply);
 
     // Adjust URL to remove basePath for matching
     if (basePath && openApiReq.url.startsWith(basePath)) {
       openApiReq.url = openApiReq.url.slice(basePath.length) || '/';
     }
 
-    const response = await handler(openApiReq);
-
-    // Set headers
-    for (const [key, value] of Object.entries(response.headers)) {
-      reply.header(key, value);
-    }
-
-    reply.status(response.status).send(response.body);
+    await sendOpenApiResponse(reply, await handler(openApiReq));
   };
 }
 
@@ -183,9 +293,15 @@ export async function registerOpenApiRoutes<TContext>(
   fastify: FastifyInstance,
   opts: FastifyOpenApiPluginOptions<TContext>
 ): Promise<void> {
-  const { router, createContext, basePath = '', onError } = opts;
+  const { router, createContext, basePath = '', onError, responseMeta, cors, strict, sse, security, authorize, mock, docs } = opts;
 
-  const handler = createOpenApiHandler({
+  if (docs) {
+    registerDocsRoutes(fastify, router, basePath, docs);
+  }
+
+  registerBodyParsers(fastify);
+
+  const handler = createAdapterHandler({
     router,
     createContext,
     onError: onError
@@ -193,6 +309,13 @@ export async function registerOpenApiRoutes<TContext>(
           onError({ error, path, req: req as unknown as FastifyRequest, ctx });
         }
       : undefined,
+    responseMeta,
+    cors,
+    strict,
+    sse,
+    security,
+    authorize,
+    mock,
   });
 
   // Get routes from router
@@ -203,24 +326,37 @@ export async function registerOpenApiRoutes<TContext>(
   const toFastifyPath = (path: string) =>
     path.replace(/\{([^}]+)\}/g, ':$1');
 
+  const routeHandler = async (req: FastifyRequest, reply: FastifyReply) => {
+    const openApiReq = toOpenApiRequest(req, reply);
+
+    // Set the original path (without basePath) for matching
+    const originalPath = req.url.slice(basePath.length);
+    openApiReq.url = originalPath.split('?')[0] || '/';
+
+    return sendOpenApiResponse(reply, await handler(openApiReq));
+  };
+
+  // Methods registered per Fastify path
+  const pathMethods = new Map<string, Set<string>>();
+
   for (const route of routes) {
     const fastifyPath = `${basePath}${toFastifyPath(route.path)}`;
     const method = route.method.toLowerCase() as 'get' | 'post' | 'put' | 'delete' | 'patch';
 
-    fastify[method](fastifyPath, async (req: FastifyRequest, reply: FastifyReply) => {
-      const openApiReq = toOpenApiRequest(req);
-
-      // Set the original path (without basePath) for matching
-      const originalPath = req.url.slice(basePath.length);
-      openApiReq.url = originalPath.split('?')[0] || '/';
+    fastify[method](fastifyPath, routeHandler);
 
-      const response = await handler(openApiReq);
+    const methods = pathMethods.get(fastifyPath) ?? new Set<string>();
+    methods.add(route.method);
+    pathMethods.set(fastifyPath, methods);
+  }
 
-      for (const [key, value] of Object.entries(response.headers)) {
-        reply.header(key, value);
-      }
+  // Route the remaining methods to the handler, which answers OPTIONS and 405
+  // (Fastify already exposes HEAD for GET routes)
+  for (const [fastifyPath, methods] of pathMethods) {
+    const remaining = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'].filter(
+      (method) => !methods.has(method) && !(method === 'HEAD' && methods.has('GET'))
+    ) as HTTPMethods[];
 
-      reply.status(response.status).send(response.body);
-    });
+    fastify.route({ method: remaining, url: fastifyPath, handler: routeHandler });
   }
 }
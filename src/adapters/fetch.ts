@@ -0,0 +1,232 @@
+import type { AnyRouter, TRPCError } from '@trpc/server';
+import type { OpenApiRequest, OpenApiResponse, ResponseMetaFn, AuthorizeFn } from '../handler';
+import { createRouteMatcher } from '../handler';
+import type { OpenApiMockOptions } from '../mock';
+import { createAdapterHandler } from '../mock';
+import type { CorsOptions } from '../cors';
+import type { SseOptions } from '../sse';
+import { isAsyncIterable } from '../sse';
+import { isMultipartContentType } from '../multipart';
+import type { ProcedureType, OpenApiSecurityRequirement } from '../types';
+
+/**
+ * Context factory for the Fetch adapter (receives the original Request)
+ */
+export type FetchCreateContextFn<TContext> = (opts: {
+  req: Request;
+  info: { path: string; type: ProcedureType };
+}) => Promise<TContext> | TContext;
+
+/**
+ * Options for the Fetch API adapter
+ */
+export interface FetchOpenApiHandlerOptions<TContext> {
+  /** tRPC router */
+  router: AnyRouter;
+  /** Context factory */
+  createContext: FetchCreateContextFn<TContext>;
+  /** Base path prefix for all routes (e.g., '/api/v1') */
+  basePath?: string;
+  /** Error handler */
+  onError?: (opts: {
+    error: TRPCError | Error;
+    path: string;
+    req: Request;
+    ctx: TContext | undefined;
+  }) => void;
+  /** Adjust status and headers of each response */
+  responseMeta?: ResponseMetaFn<TContext>;
+  /** CORS handling, including preflight */
+  cors?: CorsOptions;
+  /** Validate the router's OpenAPI metadata at registration */
+  strict?: boolean;
+  /** Server-Sent Events settings for subscriptions */
+  sse?: SseOptions;
+  /** Default security requirements (as given to `generateOpenApiDocument`) */
+  security?: OpenApiSecurityRequirement[];
+  /** Authorization of routes with security requirements (see `createOpenApiHandler`) */
+  authorize?: AuthorizeFn<TContext>;
+  /** Answer with mock data instead of running resolvers (see `createOpenApiMockHandler`) */
+  mock?: OpenApiMockOptions;
+}
+
+/**
+ * Read the request body according to its Content-Type.
+ * Returns `{ error }` when a JSON body cannot be parsed.
+ */
+async function readBody(request: Request): Promise<{ body?: unknown; error?: string }> {
+  if (request.method === 'GET' || request.method === 'HEAD' || !request.body) return {};
+
+  const contentType = (request.headers.get('content-type') || '').toLowerCase();
+
+  // Multipart bodies are parsed by the handler, against the route's upload limits
+  if (isMultipartContentType(contentType)) {
+    return { body: new Uint8Array(await request.arrayBuffer()) };
+  }
+
+  const text = await request.text();
+  if (text === '') return {};
+
+  if (contentType.includes('json')) {
+    try {
+      return { body: JSON.parse(text) };
+    } catch {
+      return { error: 'Invalid JSON body' };
+    }
+  }
+
+  return { body: text };
+}
+
+/**
+ * Get the request URL (path and query) relative to basePath,
+ * or undefined when the request is outside of it
+ */
+function getRelativeUrl(request: Request, basePath: string): string | undefined {
+  const url = new URL(request.url);
+  let pathname = url.pathname;
+
+  if (basePath) {
+    if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) return undefined;
+    pathname = pathname.slice(basePath.length) || '/';
+  }
+
+  return `${pathname}${url.search}`;
+}
+
+/**
+ * Collect Fetch headers into a plain lowercase record
+ */
+function toHeaderRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    record[key.toLowerCase()] = value;
+  });
+  return record;
+}
+
+/**
+ * Expose an async iterable of text or byte chunks as a byte stream
+ */
+function toReadableStream(body: AsyncIterable<unknown>): ReadableStream<Uint8Array> {
+  const iterator = body[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value instanceof Uint8Array ? value : encoder.encode(String(value)));
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Convert an OpenApiResponse into a Fetch Response
+ */
+function toFetchResponse(response: OpenApiResponse): Response {
+  const { status, headers, body } = response;
+
+  if (body instanceof ReadableStream) {
+    return new Response(body, { status, headers });
+  }
+
+  if (isAsyncIterable(body)) {
+    return new Response(toReadableStream(body), { status, headers });
+  }
+
+  if (body === undefined) {
+    return new Response(null, { status, headers });
+  }
+
+  if (typeof body === 'string' || body instanceof Uint8Array) {
+    return new Response(body, { status, headers });
+  }
+
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+/**
+ * Build a JSON error response produced by the adapter itself
+ */
+function jsonError(status: number, code: string, message: string): Response {
+  return new Response(JSON.stringify({ message, code }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Create a handler for WHATWG Request/Response runtimes
+ * (Bun, Deno, edge runtimes, Hono, Next.js route handlers)
+ *
+ * @example
+ * ```typescript
+ * import { createFetchHandler } from 'trpc-typia-openapi';
+ *
+ * const handler = createFetchHandler({
+ *   router: appRouter,
+ *   createContext: ({ req }) => ({ token: req.headers.get('authorization') }),
+ *   basePath: '/api',
+ * });
+ *
+ * // Next.js: export { handler as GET, handler as POST };
+ * // Bun: Bun.serve({ fetch: handler });
+ * ```
+ */
+export function createFetchHandler<TContext>(
+  opts: FetchOpenApiHandlerOptions<TContext>
+): (request: Request) => Promise<Response> {
+  const { router, createContext, basePath = '', onError, responseMeta, cors, strict, sse, security, authorize, mock } = opts;
+
+  // Map framework-agnostic requests back to the original Request
+  const requests = new WeakMap<OpenApiRequest, Request>();
+
+  const handler = createAdapterHandler({
+    router,
+    createContext: ({ req, info }) => createContext({ req: requests.get(req)!, info }),
+    onError: onError
+      ? ({ error, path, req, ctx }) => {
+          onError({ error, path, req: requests.get(req)!, ctx });
+        }
+      : undefined,
+    responseMeta,
+    cors,
+    strict,
+    sse,
+    security,
+    authorize,
+    mock,
+  });
+  const hasRoute = createRouteMatcher(router);
+
+  return async (request: Request): Promise<Response> => {
+    // Match the route before reading the body, so unknown paths answer 404 whatever they send
+    const url = getRelativeUrl(request, basePath);
+    if (url === undefined || !hasRoute(url)) {
+      return jsonError(404, 'NOT_FOUND', `No route found for ${request.method} ${new URL(request.url).pathname}`);
+    }
+
+    const { body, error } = await readBody(request);
+    if (error) {
+      return jsonError(400, 'PARSE_ERROR', error);
+    }
+
+    const openApiReq: OpenApiRequest = {
+      method: request.method,
+      url,
+      headers: toHeaderRecord(request.headers),
+      body,
+      signal: request.signal,
+    };
+    requests.set(openApiReq, request);
+
+    return toFetchResponse(await handler(openApiReq));
+  };
+}
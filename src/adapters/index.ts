@@ -4,3 +4,14 @@ export {
   registerOpenApiRoutes,
   type FastifyOpenApiPluginOptions,
 } from './fastify';
+export {
+  createNodeHttpHandler,
+  createExpressMiddleware,
+  type NodeHttpOpenApiHandlerOptions,
+  type NodeHttpCreateContextFn,
+} from './node-http';
+export {
+  createFetchHandler,
+  type FetchOpenApiHandlerOptions,
+  type FetchCreateContextFn,
+} from './fetch';
@@ -0,0 +1,355 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AnyRouter, TRPCError } from '@trpc/server';
+import type { OpenApiRequest, OpenApiResponse, ResponseMetaFn, AuthorizeFn } from '../handler';
+import { createRouteMatcher } from '../handler';
+import type { OpenApiMockOptions } from '../mock';
+import { createAdapterHandler } from '../mock';
+import type { CorsOptions } from '../cors';
+import type { SseOptions } from '../sse';
+import { isAsyncIterable } from '../sse';
+import { isMultipartContentType } from '../multipart';
+import type { ProcedureType, OpenApiSecurityRequirement } from '../types';
+
+/**
+ * Context factory for the node:http adapter (receives the raw request/response)
+ */
+export type NodeHttpCreateContextFn<TContext> = (opts: {
+  req: IncomingMessage;
+  res: ServerResponse;
+  info: { path: string; type: ProcedureType };
+}) => Promise<TContext> | TContext;
+
+/**
+ * Options for the node:http / Express adapter
+ */
+export interface NodeHttpOpenApiHandlerOptions<TContext> {
+  /** tRPC router */
+  router: AnyRouter;
+  /** Context factory */
+  createContext: NodeHttpCreateContextFn<TContext>;
+  /** Base path prefix for all routes (e.g., '/api/v1') */
+  basePath?: string;
+  /** Maximum accepted request body size in bytes (default: 1 MiB) */
+  maxBodySize?: number;
+  /** Error handler */
+  onError?: (opts: {
+    error: TRPCError | Error;
+    path: string;
+    req: IncomingMessage;
+    ctx: TContext | undefined;
+  }) => void;
+  /** Adjust status and headers of each response */
+  responseMeta?: ResponseMetaFn<TContext>;
+  /** CORS handling, including preflight */
+  cors?: CorsOptions;
+  /** Validate the router's OpenAPI metadata at registration */
+  strict?: boolean;
+  /** Server-Sent Events settings for subscriptions */
+  sse?: SseOptions;
+  /** Default security requirements (as given to `generateOpenApiDocument`) */
+  security?: OpenApiSecurityRequirement[];
+  /** Authorization of routes with security requirements (see `createOpenApiHandler`) */
+  authorize?: AuthorizeFn<TContext>;
+  /** Answer with mock data instead of running resolvers (see `createOpenApiMockHandler`) */
+  mock?: OpenApiMockOptions;
+}
+
+/**
+ * Request as seen by Express (body may already be parsed by a body parser)
+ */
+type NodeRequest = IncomingMessage & { body?: unknown };
+
+/**
+ * Express-compatible `next` callback
+ */
+type NextFunction = (err?: unknown) => void;
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Error raised while reading the request body
+ */
+class BodyError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Read and parse the request body. JSON is parsed, multipart is returned as a Buffer,
+ * other content as text.
+ */
+async function readBody(req: NodeRequest, maxBodySize: number): Promise<unknown> {
+  // Already handled by a body parser (e.g. express.json())
+  if (req.body !== undefined) return req.body;
+
+  const declaredLength = Number(req.headers['content-length']);
+  if (declaredLength > maxBodySize) {
+    throw new BodyError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${maxBodySize} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buffer.length;
+    if (size > maxBodySize) {
+      throw new BodyError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${maxBodySize} bytes`);
+    }
+    chunks.push(buffer);
+  }
+
+  if (size === 0) return undefined;
+
+  const buffer = Buffer.concat(chunks);
+  const contentType = String(req.headers['content-type'] || '');
+
+  // Multipart bodies are parsed by the handler, against the route's upload limits
+  if (isMultipartContentType(contentType)) return buffer;
+
+  const text = buffer.toString('utf8');
+
+  if (contentType.includes('json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new BodyError(400, 'PARSE_ERROR', 'Invalid JSON body');
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Strip the base path from a URL, or return undefined when it does not apply
+ */
+function stripBasePath(url: string, basePath: string): string | undefined {
+  if (!basePath) return url;
+  if (url !== basePath && !url.startsWith(`${basePath}/`) && !url.startsWith(`${basePath}?`)) {
+    return undefined;
+  }
+  const stripped = url.slice(basePath.length);
+  return stripped.startsWith('?') ? `/${stripped}` : stripped || '/';
+}
+
+/**
+ * Write an OpenApiResponse to a node:http response.
+ * Streamed bodies (SSE, NDJSON, file streams) are written chunk by chunk, honouring backpressure.
+ */
+async function sendResponse(res: ServerResponse, response: OpenApiResponse): Promise<void> {
+  res.statusCode = response.status;
+
+  for (const [key, value] of Object.entries(response.headers)) {
+    res.setHeader(key, value);
+  }
+
+  const { body } = response;
+  if (isAsyncIterable(body)) {
+    res.flushHeaders();
+    for await (const chunk of body) {
+      // Stop reading the source once the client is gone
+      if (res.destroyed) break;
+      if (!res.write(chunk as string | Uint8Array)) {
+        // Whichever event comes first removes the other listener
+        await new Promise<void>((resolve) => {
+          const resume = () => {
+            res.off('drain', resume);
+            res.off('close', resume);
+            resolve();
+          };
+          res.on('drain', resume);
+          res.on('close', resume);
+        });
+      }
+    }
+    res.end();
+  } else if (body === undefined) {
+    res.end();
+  } else if (typeof body === 'string' || body instanceof Uint8Array) {
+    res.end(body);
+  } else {
+    res.end(JSON.stringify(body));
+  }
+}
+
+/**
+ * Answer an error that escaped the handler (malformed URL, aborted upload, broken stream).
+ * Once headers are out there is no way to report it, so the socket is dropped instead.
+ */
+function sendUnhandledError(res: ServerResponse, error: unknown): void {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+
+  const malformed = error instanceof URIError;
+  res.statusCode = malformed ? 400 : 500;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(
+    JSON.stringify(
+      malformed
+        ? { message: 'Malformed request URL', code: 'BAD_REQUEST' }
+        : { message: 'Internal server error', code: 'INTERNAL_SERVER_ERROR' }
+    )
+  );
+}
+
+/**
+ * Build the request handler shared by the node:http handler and Express middleware
+ */
+function createNodeHandler<TContext>(
+  opts: NodeHttpOpenApiHandlerOptions<TContext>,
+  onNoMatch: (req: NodeRequest, res: ServerResponse, next?: NextFunction) => void
+): (req: NodeRequest, res: ServerResponse, next?: NextFunction) => Promise<void> {
+  const {
+    router,
+    createContext,
+    basePath = '',
+    maxBodySize = DEFAULT_MAX_BODY_SIZE,
+    onError,
+    responseMeta,
+    cors,
+    strict,
+    sse,
+    security,
+    authorize,
+    mock,
+  } = opts;
+
+  // Map framework-agnostic requests back to the raw node objects
+  const rawRequests = new WeakMap<OpenApiRequest, { req: NodeRequest; res: ServerResponse }>();
+
+  const handler = createAdapterHandler({
+    router,
+    createContext: ({ req, info }) => {
+      const raw = rawRequests.get(req)!;
+      return createContext({ req: raw.req, res: raw.res, info });
+    },
+    onError: onError
+      ? ({ error, path, req, ctx }) => {
+          onError({ error, path, req: rawRequests.get(req)!.req, ctx });
+        }
+      : undefined,
+    responseMeta,
+    cors,
+    strict,
+    sse,
+    security,
+    authorize,
+    mock,
+  });
+  const hasRoute = createRouteMatcher(router);
+
+  return async (req, res, next) => {
+    const method = req.method || 'GET';
+    const url = stripBasePath(req.url || '/', basePath);
+
+    if (url === undefined || !hasRoute(url)) {
+      onNoMatch(req, res, next);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readBody(req, maxBodySize);
+    } catch (error) {
+      if (!(error instanceof BodyError)) throw error;
+      await sendResponse(res, {
+        status: error.status,
+        headers: { 'Content-Type': 'application/json' },
+        body: { message: error.message, code: error.code },
+      });
+      return;
+    }
+
+    // End subscriptions when the client goes away
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    const openApiReq: OpenApiRequest = {
+      method,
+      url,
+      headers: req.headers,
+      body,
+      signal: controller.signal,
+    };
+    rawRequests.set(openApiReq, { req, res });
+
+    await sendResponse(res, await handler(openApiReq));
+  };
+}
+
+/**
+ * Create a handler for `http.createServer`
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'http';
+ * import { createNodeHttpHandler } from 'trpc-typia-openapi';
+ *
+ * const handler = createNodeHttpHandler({
+ *   router: appRouter,
+ *   createContext: ({ req }) => createContext(req),
+ *   basePath: '/api/v1',
+ * });
+ *
+ * createServer(handler).listen(3000);
+ * ```
+ */
+export function createNodeHttpHandler<TContext>(
+  opts: NodeHttpOpenApiHandlerOptions<TContext>
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const handle = createNodeHandler(opts, (req, res) => {
+    void sendResponse(res, {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+      body: {
+        message: `No route found for ${req.method} ${req.url}`,
+        code: 'NOT_FOUND',
+      },
+    });
+  });
+
+  return async (req, res) => {
+    try {
+      await handle(req, res);
+    } catch (error) {
+      sendUnhandledError(res, error);
+    }
+  };
+}
+
+/**
+ * Create an Express-compatible middleware.
+ * Requests that match no OpenAPI route are passed on with `next()`.
+ *
+ * @example
+ * ```typescript
+ * import express from 'express';
+ * import { createExpressMiddleware } from 'trpc-typia-openapi';
+ *
+ * const app = express();
+ * app.use('/api', createExpressMiddleware({
+ *   router: appRouter,
+ *   createContext: ({ req, res }) => ({ user: req.user }),
+ * }));
+ * ```
+ */
+export function createExpressMiddleware<TContext>(
+  opts: NodeHttpOpenApiHandlerOptions<TContext>
+): (req: IncomingMessage, res: ServerResponse, next: NextFunction) => Promise<void> {
+  const handle = createNodeHandler(opts, (_req, _res, next) => next?.());
+
+  return async (req, res, next) => {
+    try {
+      await handle(req, res, next);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,297 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { extname, resolve } from 'path';
+import { parseArgs } from 'util';
+import type { AnyRouter } from '@trpc/server';
+import { generateOpenApiDocument } from './generator';
+import { diffOpenApiDocuments } from './diff';
+import type { OpenApiChangeSeverity } from './diff';
+import { getOpenApiRoutes } from './handler';
+import { isRouter } from './router';
+import { toYaml } from './yaml';
+import type { OpenApiCliConfig, OpenApiVersion } from './types';
+
+const USAGE = `Usage: trpc-typia-openapi <command> [router-module] [options]
+       trpc-typia-openapi diff <before.json> <after.json> [--fail-on <level>]
+
+Commands:
+  generate   Write the OpenAPI document (to stdout without --out)
+  routes     Print the route table
+  check      Exit with code 1 when the document at --out is out of date
+  diff       List changes between two JSON documents, exiting with code 1 on breaking ones
+
+Options:
+  -c, --config <file>          JSON or CommonJS config file
+  -e, --export <name>          Router export (default: appRouter, router, default)
+  -o, --out <file>             Document path
+  -f, --format <json|yaml>     Document format (default: from --out, else json)
+      --title <title>          API title
+      --version <version>      API version
+      --description <text>     API description
+      --base-url <url>         Server URL (default: /)
+      --openapi-version <3.0|3.1>
+      --strict                 Fail on invalid OpenAPI metadata
+      --include-tag <tag>      Keep operations with this tag (repeatable)
+      --exclude-tag <tag>      Drop operations with this tag (repeatable)
+      --include-path <glob>    Keep procedures matching this path glob (repeatable)
+      --exclude-path <glob>    Drop procedures matching this path glob (repeatable)
+      --include-internal       Keep operations marked internal
+      --fail-on <level>        diff: breaking (default), deprecation or none
+  -h, --help                   Show this help
+`;
+
+const DEFAULT_EXPORTS = ['appRouter', 'router', 'default'];
+const FAIL_ON_LEVELS = ['breaking', 'deprecation', 'none'];
+
+/**
+ * Invalid command line: reported with the usage text and exit code 2
+ */
+class CliUsageError extends Error {}
+
+/**
+ * Parsed command line merged over the config file
+ */
+interface CliInvocation {
+  command: string;
+  config: OpenApiCliConfig;
+  /** Document paths of `diff` */
+  documents: string[];
+  /** Lowest severity failing `diff` */
+  failOn: string;
+}
+
+/**
+ * Load a CommonJS module relative to the working directory
+ */
+function loadModule(path: string): Record<string, unknown> {
+  return require(resolve(path));
+}
+
+/**
+ * Parse arguments and merge them over the config file
+ */
+function parseInvocation(argv: string[]): CliInvocation | undefined {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string', short: 'c' },
+        export: { type: 'string', short: 'e' },
+        out: { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f' },
+        title: { type: 'string' },
+        version: { type: 'string' },
+        description: { type: 'string' },
+        'base-url': { type: 'string' },
+        'openapi-version': { type: 'string' },
+        strict: { type: 'boolean' },
+        'include-tag': { type: 'string', multiple: true },
+        'exclude-tag': { type: 'string', multiple: true },
+        'include-path': { type: 'string', multiple: true },
+        'exclude-path': { type: 'string', multiple: true },
+        'include-internal': { type: 'boolean' },
+        'fail-on': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    throw new CliUsageError((error as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...args] = positionals;
+  if (values.help || !command) return undefined;
+
+  if (command === 'diff') {
+    const failOn = values['fail-on'] ?? 'breaking';
+    if (args.length !== 2) throw new CliUsageError('diff needs two document paths');
+    if (!FAIL_ON_LEVELS.includes(failOn)) {
+      throw new CliUsageError(`Unknown --fail-on level "${failOn}" (expected ${FAIL_ON_LEVELS.join(', ')})`);
+    }
+    return { command, config: {}, documents: args, failOn };
+  }
+  const [routerPath, ...extra] = args;
+  if (extra.length > 0) throw new CliUsageError(`Unexpected argument: ${extra[0]}`);
+
+  const fileConfig = values.config ? loadConfig(values.config) : {};
+  const flags: OpenApiCliConfig = {
+    router: routerPath,
+    export: values.export,
+    out: values.out,
+    format: values.format as OpenApiCliConfig['format'],
+    title: values.title,
+    version: values.version,
+    description: values.description,
+    baseUrl: values['base-url'],
+    openapiVersion: values['openapi-version'] as OpenApiVersion | undefined,
+    strict: values.strict,
+    includeTags: values['include-tag'],
+    excludeTags: values['exclude-tag'],
+    includePaths: values['include-path'],
+    excludePaths: values['exclude-path'],
+    includeInternal: values['include-internal'],
+  };
+
+  const config: OpenApiCliConfig = { ...fileConfig };
+  for (const [key, value] of Object.entries(flags)) {
+    if (value !== undefined) Object.assign(config, { [key]: value });
+  }
+
+  if (config.format !== undefined && config.format !== 'json' && config.format !== 'yaml') {
+    throw new CliUsageError(`Unknown format "${config.format}" (expected json or yaml)`);
+  }
+  if (config.openapiVersion !== undefined && config.openapiVersion !== '3.0' && config.openapiVersion !== '3.1') {
+    throw new CliUsageError(`Unknown OpenAPI version "${config.openapiVersion}" (expected 3.0 or 3.1)`);
+  }
+
+  return { command, config, documents: [], failOn: 'breaking' };
+}
+
+/**
+ * Read a JSON config file, or require a CommonJS one
+ */
+function loadConfig(path: string): OpenApiCliConfig {
+  if (!existsSync(path)) throw new CliUsageError(`Config file not found: ${path}`);
+  if (extname(path) === '.json') return JSON.parse(readFileSync(path, 'utf8'));
+
+  const loaded = loadModule(path);
+  return (loaded.default ?? loaded) as OpenApiCliConfig;
+}
+
+/**
+ * Load the router from the configured module and export
+ */
+function loadRouter(config: OpenApiCliConfig): AnyRouter {
+  if (!config.router) throw new CliUsageError('Missing router module');
+
+  const exports = loadModule(config.router);
+  const names = config.export ? [config.export] : DEFAULT_EXPORTS;
+  for (const name of names) {
+    if (isRouter(exports[name])) return exports[name] as AnyRouter;
+  }
+  throw new Error(`No router exported as ${names.join(', ')} from ${config.router}`);
+}
+
+/**
+ * Generate the document text in the configured format
+ */
+function renderDocument(router: AnyRouter, config: OpenApiCliConfig): string {
+  const { router: _, export: __, out, format, title, version, baseUrl = '/', ...options } = config;
+  if (!title || !version) throw new CliUsageError('Missing --title or --version');
+
+  const document = generateOpenApiDocument(router, {
+    ...options,
+    title,
+    version,
+    baseUrl,
+    onConversionWarning:
+      options.onConversionWarning ?? ((warning) => process.stderr.write(`warning: ${warning.pointer}: ${warning.message}\n`)),
+  });
+
+  const yaml = format ? format === 'yaml' : out !== undefined && ['.yaml', '.yml'].includes(extname(out));
+  return yaml ? toYaml(document) : `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * Format the route table as aligned columns
+ */
+function renderRoutes(router: AnyRouter): string {
+  const rows = getOpenApiRoutes(router).map((route) => [route.method, route.path, route.procedurePath]);
+  const widths = [0, 1].map((column) => Math.max(0, ...rows.map((row) => row[column].length)));
+  return rows.map(([method, path, procedure]) => `${method.padEnd(widths[0])}  ${path.padEnd(widths[1])}  ${procedure}\n`).join('');
+}
+
+/**
+ * Read a JSON document for `diff`
+ */
+function readDocument(path: string): Parameters<typeof diffOpenApiDocuments>[0] {
+  if (!existsSync(path)) throw new Error(`Document not found: ${path}`);
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch {
+    throw new Error(`${path} is not a JSON document (diff reads JSON only)`);
+  }
+}
+
+/**
+ * Print the changes between two documents, returning the exit code
+ */
+function runDiff(documents: string[], failOn: string): number {
+  const changes = diffOpenApiDocuments(readDocument(documents[0]), readDocument(documents[1]));
+  for (const change of changes) {
+    process.stdout.write(`${change.severity.padEnd(12)}  ${change.operation}  ${change.pointer}\n  ${change.message}\n`);
+  }
+
+  const count = (severity: OpenApiChangeSeverity) => changes.filter((change) => change.severity === severity).length;
+  process.stderr.write(
+    `${count('breaking')} breaking, ${count('deprecation')} deprecation, ${count('non-breaking')} non-breaking change(s)\n`
+  );
+
+  const failing: OpenApiChangeSeverity[] =
+    failOn === 'breaking' ? ['breaking'] : failOn === 'deprecation' ? ['breaking', 'deprecation'] : [];
+  return changes.some((change) => failing.includes(change.severity)) ? 1 : 0;
+}
+
+/**
+ * Run the command line, returning the exit code
+ *
+ * @example
+ * ```bash
+ * trpc-typia-openapi generate dist/router.js --title "My API" --version 1.0.0 --out openapi.json
+ * trpc-typia-openapi check --config openapi.config.json
+ * trpc-typia-openapi routes dist/router.js
+ * trpc-typia-openapi diff released/openapi.json openapi.json
+ * ```
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  try {
+    const invocation = parseInvocation(argv);
+    if (!invocation) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+
+    const { command, config, documents, failOn } = invocation;
+    switch (command) {
+      case 'generate': {
+        const text = renderDocument(loadRouter(config), config);
+        if (config.out) writeFileSync(config.out, text);
+        else process.stdout.write(text);
+        return 0;
+      }
+      case 'routes':
+        process.stdout.write(renderRoutes(loadRouter(config)));
+        return 0;
+      case 'check': {
+        if (!config.out) throw new CliUsageError('check needs --out (the committed document)');
+        const text = renderDocument(loadRouter(config), config);
+        const current = existsSync(config.out) ? readFileSync(config.out, 'utf8').replace(/\r\n/g, '\n') : undefined;
+        if (current === text) return 0;
+
+        process.stderr.write(
+          `${config.out} is ${current === undefined ? 'missing' : 'out of date'}; run "trpc-typia-openapi generate" to update it\n`
+        );
+        return 1;
+      }
+      case 'diff':
+        return runDiff(documents, failOn);
+      default:
+        throw new CliUsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,546 @@
+import type { AnyRouter } from '@trpc/server';
+import type { GenerateRestClientOptions, HttpMethod } from './types';
+import type { InputObjectSchema, JsonSchema } from './schema';
+import { getComponentsFromParser, getInputObjectSchema, resolveSchema } from './schema';
+import { getSchemaFromParser } from './procedure';
+import { createComponentRegistry, getComponentPrefix, rewriteInputObject } from './components';
+import { createOperationFilter } from './filter';
+import { getMappedParameters } from './parameters';
+import { getQuerySerialization } from './query';
+import { toMediaTypeList } from './content-type';
+import { isJsonContentType } from './response';
+import { isMultipartContentType } from './multipart';
+import { ERROR_SCHEMA_NAME, VALIDATION_ERROR_SCHEMA_NAME } from './errors';
+import { SSE_CONTENT_TYPE } from './sse';
+import { getOperationId, validateOpenApiRouter } from './validate';
+import type { ProcedureDef } from './router';
+import { collectOpenApiProcedures } from './router';
+
+/**
+ * Helpers and types emitted at the top of every generated client
+ */
+const RUNTIME = `/**
+ * Options of the generated client
+ */
+export interface ClientOptions {
+  /** Base URL of the API */
+  baseUrl?: string;
+  /** fetch implementation (default: the global fetch) */
+  fetch?: typeof fetch;
+  /** Headers sent with every request */
+  headers?: Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>);
+}
+
+/**
+ * Error thrown for responses outside the 2xx range
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown
+  ) {
+    super('Request failed with status ' + status);
+    this.name = 'ApiError';
+  }
+}
+
+type QueryStyle = 'form' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject';
+
+const DELIMITERS: Record<string, string> = { form: ',', spaceDelimited: ' ', pipeDelimited: '|' };
+
+interface RequestSpec {
+  method: string;
+  path: string;
+  query?: URLSearchParams;
+  headers?: Record<string, string | undefined>;
+  cookies?: Record<string, unknown>;
+  body?: BodyInit;
+  contentType?: string;
+  accept: string;
+  responseType: 'json' | 'text' | 'blob' | 'none' | 'response';
+}
+
+function appendQuery(query: URLSearchParams, name: string, value: unknown, style: QueryStyle = 'form', explode = true): void {
+  if (value === undefined) return;
+  if (Array.isArray(value)) {
+    if (explode && (style === 'form' || style === 'deepObject')) {
+      for (const item of value) query.append(name, String(item));
+    } else {
+      query.append(name, value.map(String).join(DELIMITERS[style] || ','));
+    }
+    return;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (style === 'deepObject') {
+      for (const [key, item] of entries) appendQuery(query, name + '[' + key + ']', item, 'deepObject');
+    } else if (explode) {
+      for (const [key, item] of entries) query.append(key, String(item));
+    } else {
+      query.append(name, entries.flat().map(String).join(','));
+    }
+    return;
+  }
+  query.append(name, String(value));
+}
+
+function toHeaderValue(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return Array.isArray(value) ? value.map(String).join(', ') : String(value);
+}
+
+function omit(input: object, keys: string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...(input as Record<string, unknown>) };
+  for (const key of keys) delete result[key];
+  return result;
+}
+
+function toFormData(values: object): FormData {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(values)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === undefined) continue;
+      if (item instanceof Blob) form.append(name, item);
+      else form.append(name, typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item));
+    }
+  }
+  return form;
+}
+
+async function readErrorBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function createTransport(options: ClientOptions) {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\\/$/, '');
+
+  return async <T>(spec: RequestSpec, init: RequestInit = {}): Promise<T> => {
+    const defaults = typeof options.headers === 'function' ? await options.headers() : options.headers;
+    const headers = new Headers(defaults);
+    if (spec.contentType) headers.set('Content-Type', spec.contentType);
+    headers.set('Accept', spec.accept);
+    for (const [name, value] of Object.entries(spec.headers || {})) {
+      if (value !== undefined) headers.set(name, value);
+    }
+    const cookies = Object.entries(spec.cookies || {})
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => name + '=' + encodeURIComponent(String(value)));
+    if (cookies.length > 0) headers.set('Cookie', cookies.join('; '));
+    new Headers(init.headers).forEach((value, name) => headers.set(name, value));
+
+    const search = spec.query ? spec.query.toString() : '';
+    const response = await (options.fetch ?? fetch)(baseUrl + spec.path + (search ? '?' + search : ''), {
+      ...init,
+      method: spec.method,
+      headers,
+      body: spec.body,
+    });
+
+    if (!response.ok) throw new ApiError(response.status, await readErrorBody(response));
+
+    switch (spec.responseType) {
+      case 'none':
+        return undefined as T;
+      case 'json':
+        return (await response.json()) as T;
+      case 'text':
+        return (await response.text()) as T;
+      case 'blob':
+        return (await response.blob()) as T;
+      default:
+        return response as T;
+    }
+  };
+}`;
+
+/** Identifiers declared by the runtime, never used for component types */
+const RUNTIME_NAMES = new Set([
+  'ClientOptions',
+  'ApiError',
+  'QueryStyle',
+  'DELIMITERS',
+  'RequestSpec',
+  'DEFAULT_BASE_URL',
+  'Client',
+  'appendQuery',
+  'toHeaderValue',
+  'omit',
+  'toFormData',
+  'readErrorBody',
+  'createTransport',
+]);
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Property key, quoted when it is not a valid identifier
+ */
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Expression reading an input property
+ */
+function inputAccess(name: string): string {
+  return IDENTIFIER.test(name) ? `input.${name}` : `input[${JSON.stringify(name)}]`;
+}
+
+/**
+ * JSDoc block for a description, or nothing
+ */
+function docComment(lines: Array<string | undefined>, indent: string): string {
+  const content = lines
+    .filter((line): line is string => line !== undefined)
+    .flatMap((line) => line.replace(/\*\//g, '*\\/').split('\n'));
+  if (content.length === 0) return '';
+  if (content.length === 1) return `${indent}/** ${content[0]} */\n`;
+  return `${indent}/**\n${content.map((line) => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+}
+
+/**
+ * Map component names to unique TypeScript identifiers, in sorted order
+ */
+function getTypeNames(componentNames: string[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set(RUNTIME_NAMES);
+
+  for (const name of [...componentNames].sort()) {
+    const base = name.replace(/[^A-Za-z0-9_$]/g, '_').replace(/^(?=\d)/, '_');
+    let candidate = base;
+    for (let suffix = 2; used.has(candidate); suffix++) candidate = `${base}_${suffix}`;
+    used.add(candidate);
+    names.set(name, candidate);
+  }
+
+  return names;
+}
+
+/**
+ * Wrap a type for use as an array element when needed
+ */
+function arrayOf(type: string): string {
+  return /^[\w$.]+$/.test(type) ? `${type}[]` : `Array<${type}>`;
+}
+
+/**
+ * Render a JSON schema as a TypeScript type
+ */
+function toTypeScript(schema: unknown, typeNames: Map<string, string>, indent: string = ''): string {
+  if (schema === true || schema === undefined) return 'unknown';
+  if (schema === false) return 'never';
+  if (typeof schema !== 'object' || schema === null) return 'unknown';
+  const node = schema as JsonSchema;
+  const render = (member: unknown) => toTypeScript(member, typeNames, indent);
+
+  if (typeof node.$ref === 'string') {
+    // Uploaded files are sent as Blobs
+    if (node.format === 'binary') return 'Blob';
+    const name = decodeURIComponent(node.$ref.replace('#/components/schemas/', ''));
+    return typeNames.get(name) ?? 'unknown';
+  }
+  if (node.format === 'binary') return 'Blob';
+  if ('const' in node) return JSON.stringify(node.const);
+  if (Array.isArray(node.enum)) return node.enum.map((value) => JSON.stringify(value)).join(' | ') || 'never';
+
+  const alternatives = (node.oneOf || node.anyOf) as unknown[] | undefined;
+  if (Array.isArray(alternatives)) return alternatives.map(render).join(' | ') || 'never';
+  if (Array.isArray(node.allOf)) return node.allOf.map(render).join(' & ') || 'unknown';
+
+  if (Array.isArray(node.type)) {
+    return node.type.map((type) => render({ ...node, type })).join(' | ');
+  }
+
+  switch (node.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      if (Array.isArray(node.prefixItems)) {
+        const items = node.prefixItems.map(render);
+        const rest = node.items && node.items !== false ? [`...${arrayOf(render(node.items))}`] : [];
+        return `[${[...items, ...rest].join(', ')}]`;
+      }
+      return arrayOf(render(node.items));
+    }
+    case 'object':
+    case undefined:
+      if (node.type === undefined && !node.properties && !node.additionalProperties) return 'unknown';
+      return objectType(node, typeNames, indent);
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Render an object schema as a TypeScript type literal
+ */
+function objectType(node: JsonSchema, typeNames: Map<string, string>, indent: string): string {
+  const properties = (node.properties || {}) as Record<string, unknown>;
+  const required = Array.isArray(node.required) ? (node.required as string[]) : [];
+  const inner = `${indent}  `;
+  const members: string[] = [];
+
+  for (const [name, property] of Object.entries(properties)) {
+    const description = (property as JsonSchema | undefined)?.description as string | undefined;
+    const optional = required.includes(name) ? '' : '?';
+    members.push(
+      `${docComment([description], inner)}${inner}${propertyKey(name)}${optional}: ${toTypeScript(property, typeNames, inner)};`
+    );
+  }
+
+  const { additionalProperties } = node;
+  if (additionalProperties && typeof additionalProperties === 'object') {
+    members.push(`${inner}[key: string]: ${toTypeScript(additionalProperties, typeNames, inner)};`);
+  } else if (members.length === 0) {
+    return 'Record<string, unknown>';
+  }
+
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Render a component declaration: an interface for plain objects, a type alias otherwise
+ */
+function componentDeclaration(name: string, schema: JsonSchema, typeNames: Map<string, string>): string {
+  const doc = docComment([schema.description as string | undefined], '');
+  const isPlainObject =
+    schema.type === 'object' &&
+    !!schema.properties &&
+    !schema.allOf &&
+    !schema.oneOf &&
+    !schema.anyOf &&
+    !('const' in schema) &&
+    !schema.enum;
+
+  return isPlainObject
+    ? `${doc}export interface ${name} ${objectType(schema, typeNames, '')}`
+    : `${doc}export type ${name} = ${toTypeScript(schema, typeNames)};`;
+}
+
+/**
+ * Source of the path expression, with path parameters substituted
+ */
+function pathExpression(path: string): string {
+  const parts = path.split(/\{([^}]+)\}/);
+  const pieces: string[] = [];
+  parts.forEach((part, index) => {
+    if (index % 2 === 1) {
+      pieces.push(`encodeURIComponent(String(${inputAccess(part)}))`);
+    } else if (part) {
+      pieces.push(JSON.stringify(part));
+    }
+  });
+  return pieces.join(' + ') || "'/'";
+}
+
+/**
+ * Source of one client method
+ */
+function operationSource(
+  procedurePath: string,
+  procedure: ProcedureDef,
+  inputSchema: unknown,
+  inputObject: InputObjectSchema | undefined,
+  outputSchema: unknown,
+  typeNames: Map<string, string>
+): string {
+  const meta = procedure._def.meta!;
+  const openapi = meta.openapi!;
+  const isSubscription = procedure._def.type === 'subscription';
+  const method: HttpMethod = openapi.method || (procedure._def.type === 'mutation' ? 'POST' : 'GET');
+  const hasBody = method !== 'GET';
+  const indent = '    ';
+  const body: string[] = [];
+  const spec: string[] = [`method: '${method}'`, `path: ${pathExpression(openapi.path)}`];
+
+  const pathParams = [...openapi.path.matchAll(/\{([^}]+)\}/g)].map((match) => match[1]);
+  const mapped = getMappedParameters(meta);
+  const excluded = [...pathParams, ...[...mapped.headers, ...mapped.cookies].map(({ property }) => property)];
+  const properties = Object.keys(inputObject?.properties || {}).filter((name) => !excluded.includes(name));
+
+  // Query string (GET) or form body entries, serialized like the server expects
+  const appendEntries = (target: string) =>
+    properties.map((name) => {
+      const serialization = getQuerySerialization(
+        name,
+        inputObject!.properties[name],
+        inputObject!.components,
+        openapi.querySerialization
+      );
+      const style = serialization ? `, '${serialization.style}', ${serialization.explode}` : '';
+      return `${indent}  appendQuery(${target}, ${JSON.stringify(name)}, ${inputAccess(name)}${style});`;
+    });
+
+  if (!hasBody && properties.length > 0) {
+    body.push(`${indent}  const query = new URLSearchParams();`, ...appendEntries('query'));
+    spec.push('query');
+  }
+
+  if (mapped.headers.length > 0) {
+    const headers = mapped.headers.map(
+      ({ property, name }) => `${JSON.stringify(name)}: toHeaderValue(${inputAccess(property)})`
+    );
+    spec.push(`headers: { ${headers.join(', ')} }`);
+  }
+  if (mapped.cookies.length > 0) {
+    const cookies = mapped.cookies.map(({ property, name }) => `${propertyKey(name)}: ${inputAccess(property)}`);
+    spec.push(`cookies: { ${cookies.join(', ')} }`);
+  }
+
+  if (hasBody && inputSchema !== undefined && (!inputObject || properties.length > 0)) {
+    const contentType = toMediaTypeList(openapi.contentType, 'application/json')[0];
+    const values = excluded.length > 0 ? `omit(input, ${JSON.stringify(excluded)})` : 'input';
+
+    if (isMultipartContentType(contentType)) {
+      spec.push(`body: toFormData(${values})`);
+    } else if (contentType === 'application/x-www-form-urlencoded') {
+      body.push(`${indent}  const form = new URLSearchParams();`, ...appendEntries('form'));
+      spec.push('body: form', `contentType: ${JSON.stringify(contentType)}`);
+    } else {
+      spec.push(`body: JSON.stringify(${values})`, `contentType: ${JSON.stringify(contentType)}`);
+    }
+  }
+
+  let returnType: string;
+  if (isSubscription) {
+    returnType = 'Response';
+    spec.push(`accept: '${SSE_CONTENT_TYPE}'`, `responseType: 'response'`);
+  } else if (openapi.successStatus === 204) {
+    returnType = 'void';
+    spec.push(`accept: 'application/json'`, `responseType: 'none'`);
+  } else {
+    const responseType = toMediaTypeList(openapi.responseContentType, 'application/json')[0];
+    const kind = isJsonContentType(responseType) ? 'json' : responseType.startsWith('text/') ? 'text' : 'blob';
+    returnType = kind === 'json' ? toTypeScript(outputSchema, typeNames, indent) : kind === 'text' ? 'string' : 'Blob';
+    spec.push(`accept: ${JSON.stringify(responseType)}`, `responseType: '${kind}'`);
+  }
+
+  let params = 'init?: RequestInit';
+  if (inputSchema !== undefined) {
+    const inputType = toTypeScript(inputSchema, typeNames, indent);
+    const resolved = inputObject ? resolveSchema(inputSchema, inputObject.components) : undefined;
+    const allOptional = !!inputObject && !((resolved?.required as string[] | undefined)?.length);
+    params = `input: ${inputType}${allOptional ? ' = {}' : ''}, ${params}`;
+  }
+
+  const docLines: string[] = [];
+  if (openapi.summary) docLines.push(openapi.summary, '');
+  if (openapi.description) docLines.push(openapi.description, '');
+  docLines.push(`\`${method} ${openapi.path}\`${isSubscription ? ' (Server-Sent Events)' : ''}`);
+  if (openapi.deprecated) docLines.push('', '@deprecated');
+
+  return [
+    `${docComment(docLines, indent)}${indent}async ${propertyKey(getOperationId(procedurePath))}(${params}): Promise<${returnType}> {`,
+    ...body,
+    `${indent}  return send<${returnType}>(`,
+    `${indent}    {`,
+    ...spec.map((entry) => `${indent}      ${entry},`),
+    `${indent}    },`,
+    `${indent}    init`,
+    `${indent}  );`,
+    `${indent}},`,
+  ].join('\n');
+}
+
+/**
+ * Generate the source of a typed TypeScript REST client for a router.
+ *
+ * The module has one method per operation, named after its `operationId`, placing
+ * path, query, header, cookie and body fields the way the handler reads them. Types
+ * come from the Typia schemas, with the component names of the OpenAPI document.
+ * Output is deterministic, so it can be committed and diffed.
+ *
+ * @example
+ * ```typescript
+ * import { writeFileSync } from 'fs';
+ * import { generateRestClient } from 'trpc-typia-openapi';
+ *
+ * writeFileSync('client.ts', generateRestClient(appRouter, { baseUrl: 'https://api.example.com' }));
+ *
+ * // In the consumer
+ * const api = createClient({ fetch: myFetch });
+ * const user = await api.users_get({ id: '1' });
+ * ```
+ */
+export function generateRestClient(router: AnyRouter, options: GenerateRestClientOptions = {}): string {
+  const { baseUrl = '', clientName = 'createClient', strict, componentCollisions, componentPrefixes } = options;
+
+  if (strict) {
+    validateOpenApiRouter(router);
+  }
+
+  // Same selection and registration order as generateOpenApiDocument, so component names match
+  const isIncluded = createOperationFilter(options);
+  const components = createComponentRegistry(componentCollisions, [ERROR_SCHEMA_NAME, VALIDATION_ERROR_SCHEMA_NAME]);
+  const procedures = collectOpenApiProcedures(router).filter(({ procedurePath, procedure }) =>
+    isIncluded(procedurePath, procedure._def.meta!)
+  );
+  const operations = procedures.map(({ procedurePath, procedure }) => {
+    const inputParser = procedure._def.inputs?.[0];
+    const outputParser = procedure._def.output;
+    const prefix = getComponentPrefix(procedurePath, componentPrefixes);
+    const rewriteInput = components.add(getComponentsFromParser(inputParser), prefix);
+    const rewriteOutput = components.add(getComponentsFromParser(outputParser), prefix);
+
+    const inputSchema = inputParser ? getSchemaFromParser(inputParser) : undefined;
+    const inputObject = inputParser ? getInputObjectSchema(inputParser) : undefined;
+    const outputSchema = outputParser ? getSchemaFromParser(outputParser) : undefined;
+
+    return {
+      procedurePath,
+      procedure,
+      inputSchema: inputSchema && rewriteInput(inputSchema),
+      inputObject: inputObject && rewriteInputObject(inputObject, rewriteInput, components),
+      outputSchema: outputSchema && rewriteOutput(outputSchema),
+    };
+  });
+
+  const typeNames = getTypeNames(Object.keys(components.schemas));
+  const declarations = [...typeNames].map(([name, typeName]) =>
+    componentDeclaration(typeName, components.schemas[name], typeNames)
+  );
+
+  const methods = operations
+    .map((operation) => ({ ...operation, operationId: getOperationId(operation.procedurePath) }))
+    // Ordinal order, so the output does not depend on the machine's locale
+    .sort((a, b) => (a.operationId < b.operationId ? -1 : a.operationId > b.operationId ? 1 : 0))
+    .map(({ procedurePath, procedure, inputSchema, inputObject, outputSchema }) =>
+      operationSource(procedurePath, procedure, inputSchema, inputObject, outputSchema, typeNames)
+    );
+
+  return [
+    '/* eslint-disable */',
+    '// Generated by trpc-typia-openapi. Do not edit.',
+    '',
+    `const DEFAULT_BASE_URL = ${JSON.stringify(baseUrl)};`,
+    '',
+    ...declarations.flatMap((declaration) => [declaration, '']),
+    RUNTIME,
+    '',
+    '/**',
+    ' * Create the API client',
+    ' */',
+    `export function ${clientName}(options: ClientOptions = {}) {`,
+    '  const send = createTransport(options);',
+    '',
+    '  return {',
+    methods.join('\n\n'),
+    '  };',
+    '}',
+    '',
+    `export type Client = ReturnType<typeof ${clientName}>;`,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,207 @@
+import type { JsonSchema, ComponentSchemas } from './schema';
+import { resolveSchema } from './schema';
+
+/**
+ * Raw parameter value as deserialized from the URL
+ */
+export type RawParameter = string | string[] | { [key: string]: RawParameter };
+
+/**
+ * Result of coercing a raw string parameter
+ */
+export type CoercionResult =
+  | { success: true; value: unknown }
+  | { success: false; expected: string };
+
+/**
+ * Order in which union members are tried. Strings accept anything,
+ * so they go last to let "5" become 5 for `number | string`.
+ */
+const TYPE_PRIORITY: Record<string, number> = {
+  null: 0,
+  boolean: 1,
+  integer: 2,
+  number: 3,
+  array: 4,
+  object: 5,
+  string: 6,
+};
+
+/**
+ * Coerce a raw string into a single JSON schema primitive type
+ */
+function coercePrimitive(raw: string, type: string): CoercionResult {
+  switch (type) {
+    case 'string':
+      return { success: true, value: raw };
+    case 'integer':
+      return /^[-+]?\d+$/.test(raw)
+        ? { success: true, value: Number(raw) }
+        : { success: false, expected: 'integer' };
+    case 'number': {
+      const num = Number(raw);
+      return raw.trim() !== '' && Number.isFinite(num)
+        ? { success: true, value: num }
+        : { success: false, expected: 'number' };
+    }
+    case 'boolean':
+      if (raw === 'true') return { success: true, value: true };
+      if (raw === 'false') return { success: true, value: false };
+      return { success: false, expected: 'boolean' };
+    case 'null':
+      return raw === 'null' || raw === ''
+        ? { success: true, value: null }
+        : { success: false, expected: 'null' };
+    default:
+      // Arrays and objects cannot be expressed by a single raw string
+      return { success: false, expected: type };
+  }
+}
+
+/**
+ * Check whether a raw value is a nested object (deepObject / exploded form)
+ */
+function isRawObject(raw: RawParameter): raw is { [key: string]: RawParameter } {
+  return typeof raw === 'object' && !Array.isArray(raw);
+}
+
+/**
+ * Short human-readable description of what a schema expects
+ */
+function describeSchema(schema: JsonSchema): string {
+  if ('const' in schema) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.type)) return schema.type.join(' | ');
+  return typeof schema.type === 'string' ? schema.type : 'value';
+}
+
+/**
+ * Coerce each property of a raw object against an object schema
+ */
+function coerceObject(
+  raw: { [key: string]: RawParameter },
+  schema: JsonSchema,
+  components: ComponentSchemas
+): CoercionResult {
+  const properties = (schema.properties as Record<string, unknown> | undefined) || {};
+  const additional = schema.additionalProperties;
+  const value: Record<string, unknown> = {};
+
+  for (const [key, item] of Object.entries(raw)) {
+    const propSchema = properties[key] ?? (typeof additional === 'object' ? additional : undefined);
+    const result = coerceParameter(item, propSchema, components);
+    if (!result.success) {
+      return { success: false, expected: `object with ${key}: ${result.expected}` };
+    }
+    value[key] = result.value;
+  }
+
+  return { success: true, value };
+}
+
+/**
+ * Priority of a schema within a union, based on its (first) declared type
+ */
+function schemaPriority(schema: JsonSchema | undefined): number {
+  if (!schema) return TYPE_PRIORITY.string;
+  // Literals are exact matches, so they are safe to try early
+  if ('const' in schema || Array.isArray(schema.enum)) return TYPE_PRIORITY.boolean;
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  return typeof type === 'string' && type in TYPE_PRIORITY ? TYPE_PRIORITY[type] : TYPE_PRIORITY.string;
+}
+
+/**
+ * Try each union member in priority order and return the first success
+ */
+function coerceUnion(
+  raw: RawParameter,
+  members: unknown[],
+  components: ComponentSchemas
+): CoercionResult {
+  const resolved = members
+    .map((member) => resolveSchema(member, components))
+    .sort((a, b) => schemaPriority(a) - schemaPriority(b));
+
+  const expected: string[] = [];
+  for (const member of resolved) {
+    const result = coerceParameter(raw, member, components);
+    if (result.success) return result;
+    expected.push(result.expected);
+  }
+
+  return { success: false, expected: expected.join(' | ') };
+}
+
+/**
+ * Coerce a raw query or path parameter into the type declared by its JSON schema.
+ *
+ * Handles integer, number, boolean, null, string, `const`/`enum` literals,
+ * unions (`oneOf`/`anyOf`/type arrays, including 3.0 `nullable`), arrays
+ * of those when the value was repeated, and objects built from deepObject
+ * or form-exploded keys. Values without a usable schema are passed through
+ * unchanged so Typia can report them.
+ */
+export function coerceParameter(
+  raw: RawParameter,
+  schema: unknown,
+  components: ComponentSchemas
+): CoercionResult {
+  const resolved = resolveSchema(schema, components);
+  if (!resolved) return { success: true, value: raw };
+
+  const union = (resolved.oneOf || resolved.anyOf) as unknown[] | undefined;
+  if (Array.isArray(union)) {
+    return coerceUnion(raw, union, components);
+  }
+
+  // OpenAPI 3.0 nullable
+  if (resolved.nullable === true) {
+    const { nullable: _nullable, ...rest } = resolved;
+    return coerceUnion(raw, [{ type: 'null' }, rest], components);
+  }
+
+  if (Array.isArray(resolved.type)) {
+    const members = resolved.type.map((type) => ({ ...resolved, type }));
+    return coerceUnion(raw, members, components);
+  }
+
+  if (resolved.type === 'object') {
+    return isRawObject(raw)
+      ? coerceObject(raw, resolved, components)
+      : { success: false, expected: 'object' };
+  }
+
+  if (isRawObject(raw)) return { success: false, expected: describeSchema(resolved) };
+
+  if (resolved.type === 'array') {
+    const values = Array.isArray(raw) ? raw : [raw];
+    const items: unknown[] = [];
+    for (const value of values) {
+      const result = coerceParameter(value, resolved.items, components);
+      if (!result.success) return { success: false, expected: `array of ${result.expected}` };
+      items.push(result.value);
+    }
+    return { success: true, value: items };
+  }
+
+  // Repeated keys for a scalar parameter: leave the choice to the validator
+  if (Array.isArray(raw)) return { success: true, value: raw };
+
+  if ('const' in resolved) {
+    return String(resolved.const) === raw
+      ? { success: true, value: resolved.const }
+      : { success: false, expected: JSON.stringify(resolved.const) };
+  }
+
+  if (Array.isArray(resolved.enum)) {
+    const index = resolved.enum.findIndex((candidate) => String(candidate) === raw);
+    return index !== -1
+      ? { success: true, value: resolved.enum[index] }
+      : { success: false, expected: resolved.enum.map((e) => JSON.stringify(e)).join(' | ') };
+  }
+
+  if (typeof resolved.type === 'string') {
+    return coercePrimitive(raw, resolved.type);
+  }
+
+  return { success: true, value: raw };
+}
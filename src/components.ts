@@ -0,0 +1,194 @@
+import type { ComponentSchemas, InputObjectSchema, JsonSchema } from './schema';
+import type { ComponentCollisionMode } from './types';
+
+/**
+ * Error thrown in `error` mode when two different schemas share a component name
+ */
+export class ComponentCollisionError extends Error {
+  constructor(readonly componentName: string) {
+    super(`Component schema "${componentName}" is declared with two different shapes`);
+    this.name = 'ComponentCollisionError';
+  }
+}
+
+/**
+ * Collects component schemas from many parsers into one `components.schemas`
+ */
+export interface ComponentRegistry {
+  /** Registered schemas by final name */
+  schemas: ComponentSchemas;
+  /**
+   * Register the components of one parser. Returns a function rewriting `$ref`s of
+   * schemas from that parser to the final names.
+   */
+  add(components: ComponentSchemas, prefix?: string): (schema: unknown) => unknown;
+}
+
+const COMPONENT_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Serialize a schema with sorted keys, so equal shapes compare equal
+ */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Deep-copy a schema, renaming component `$ref`s
+ */
+function rewriteRefs(schema: unknown, names: Map<string, string>): unknown {
+  if (Array.isArray(schema)) return schema.map((item) => rewriteRefs(item, names));
+  if (typeof schema !== 'object' || schema === null) return schema;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$ref' && typeof value === 'string' && value.startsWith(COMPONENT_REF_PREFIX)) {
+      const renamed = names.get(decodeURIComponent(value.slice(COMPONENT_REF_PREFIX.length)));
+      result[key] = renamed === undefined ? value : `${COMPONENT_REF_PREFIX}${encodeURIComponent(renamed)}`;
+    } else {
+      result[key] = rewriteRefs(value, names);
+    }
+  }
+  return result;
+}
+
+/**
+ * Create a registry merging component schemas.
+ *
+ * Structurally identical components are stored once. When a name is already taken by
+ * a different shape, `rename` mode picks the next free `Name_2`, `Name_3`... (rewriting
+ * every `$ref`, including components that reference the renamed one), while `error`
+ * mode throws a {@link ComponentCollisionError}. Reserved names are never handed out.
+ */
+export function createComponentRegistry(
+  mode: ComponentCollisionMode = 'rename',
+  reserved: string[] = []
+): ComponentRegistry {
+  const schemas: ComponentSchemas = {};
+  const fingerprints = new Map<string, string>();
+  const reservedNames = new Set(reserved);
+
+  const isTaken = (name: string) => reservedNames.has(name) || fingerprints.has(name);
+
+  return {
+    schemas,
+    add(components, prefix = '') {
+      const sourceNames = Object.keys(components).sort();
+      const names = new Map(sourceNames.map((name) => [name, `${prefix}${name}`]));
+      const suffixes = new Map(sourceNames.map((name) => [name, 1]));
+
+      const rename = (name: string) => {
+        const suffix = suffixes.get(name)! + 1;
+        suffixes.set(name, suffix);
+        names.set(name, `${prefix}${name}_${suffix}`);
+      };
+      // A renamed component must not land on a name another component of the batch uses
+      const isClaimed = (name: string, target: string) =>
+        target !== `${prefix}${name}` && sourceNames.some((other) => other !== name && names.get(other) === target);
+
+      // Rename until every component either matches what is registered under its
+      // name or gets a free name; renaming one may change the refs of others
+      let changed = true;
+      while (changed) {
+        changed = false;
+        for (const name of sourceNames) {
+          const target = names.get(name)!;
+          if (isClaimed(name, target)) {
+            rename(name);
+            changed = true;
+            continue;
+          }
+          if (!isTaken(target)) continue;
+
+          const fingerprint = canonical(rewriteRefs(components[name], names));
+          if (fingerprints.get(target) === fingerprint) continue;
+
+          if (mode === 'error') throw new ComponentCollisionError(target);
+
+          rename(name);
+          changed = true;
+        }
+      }
+
+      for (const name of sourceNames) {
+        const target = names.get(name)!;
+        if (fingerprints.has(target)) continue;
+        const schema = rewriteRefs(components[name], names) as JsonSchema;
+        schemas[target] = schema;
+        fingerprints.set(target, canonical(schema));
+      }
+
+      return (schema) => rewriteRefs(schema, names);
+    },
+  };
+}
+
+/**
+ * Remove the component schemas not referenced from `roots`, directly or through
+ * other components
+ */
+export function pruneComponentSchemas(schemas: ComponentSchemas, roots: unknown): void {
+  const reachable = new Set<string>();
+
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (typeof value !== 'object' || value === null) return;
+
+    for (const [key, item] of Object.entries(value)) {
+      if (key === '$ref' && typeof item === 'string' && item.startsWith(COMPONENT_REF_PREFIX)) {
+        const name = decodeURIComponent(item.slice(COMPONENT_REF_PREFIX.length));
+        if (!reachable.has(name) && name in schemas) {
+          reachable.add(name);
+          visit(schemas[name]);
+        }
+      } else {
+        visit(item);
+      }
+    }
+  };
+
+  visit(roots);
+  for (const name of Object.keys(schemas)) {
+    if (!reachable.has(name)) delete schemas[name];
+  }
+}
+
+/**
+ * Component name prefix of a procedure: the one of its longest matching router namespace
+ */
+export function getComponentPrefix(procedurePath: string, prefixes: Record<string, string> = {}): string {
+  let match: string | undefined;
+  for (const namespace of Object.keys(prefixes)) {
+    const inNamespace = procedurePath === namespace || procedurePath.startsWith(`${namespace}.`);
+    if (inNamespace && (match === undefined || namespace.length > match.length)) {
+      match = namespace;
+    }
+  }
+  return match === undefined ? '' : prefixes[match];
+}
+
+/**
+ * Apply a `$ref` rewrite to a resolved input object schema, keeping its
+ * components resolvable under the new names
+ */
+export function rewriteInputObject(
+  inputObject: InputObjectSchema,
+  rewrite: (schema: unknown) => unknown,
+  registry: ComponentRegistry
+): InputObjectSchema {
+  const properties: Record<string, JsonSchema> = {};
+  for (const [name, schema] of Object.entries(inputObject.properties)) {
+    properties[name] = rewrite(schema) as JsonSchema;
+  }
+  return { properties, required: inputObject.required, components: registry.schemas };
+}
@@ -0,0 +1,91 @@
+/**
+ * Media type helpers for request Content-Type enforcement and Accept negotiation
+ */
+
+/**
+ * Normalize a single or multiple media type declaration to a list
+ */
+export function toMediaTypeList(declared: string | string[] | undefined, fallback: string): string[] {
+  if (declared === undefined) return [fallback];
+  const list = Array.isArray(declared) ? declared : [declared];
+  return list.length > 0 ? list : [fallback];
+}
+
+/**
+ * Extract the bare, lowercase media type of a header value (`Application/JSON; charset=utf-8` -> `application/json`)
+ */
+export function getMediaType(header: string | string[] | undefined): string | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) return undefined;
+  const mediaType = value.split(';')[0].trim().toLowerCase();
+  return mediaType || undefined;
+}
+
+/**
+ * Check whether a media type matches a pattern that may use wildcards (`text/*`, `*\/*`)
+ */
+export function matchesMediaType(mediaType: string, pattern: string): boolean {
+  const [type, subtype] = mediaType.toLowerCase().split('/');
+  const [patternType, patternSubtype] = getMediaType(pattern)!.split('/');
+  return (
+    (patternType === '*' || patternType === type) &&
+    (patternSubtype === '*' || patternSubtype === subtype)
+  );
+}
+
+/**
+ * Parsed entry of an Accept header
+ */
+interface AcceptEntry {
+  range: string;
+  q: number;
+  /** 2 for type/subtype, 1 for type/*, 0 for *\/* */
+  specificity: number;
+}
+
+/**
+ * Parse an Accept header into media ranges with quality values
+ */
+function parseAccept(header: string): AcceptEntry[] {
+  return header
+    .split(',')
+    .map((part) => {
+      const [range, ...params] = part.split(';').map((piece) => piece.trim());
+      const qParam = params.find((param) => param.toLowerCase().startsWith('q='));
+      const q = qParam ? Number(qParam.slice(2)) : 1;
+      const lowerRange = range.toLowerCase();
+      const specificity = lowerRange === '*/*' ? 0 : lowerRange.endsWith('/*') ? 1 : 2;
+      return { range: lowerRange, q: Number.isFinite(q) ? q : 0, specificity };
+    })
+    .filter((entry) => entry.range.includes('/'));
+}
+
+/**
+ * Pick the declared media type preferred by an Accept header.
+ * Without an Accept header the first declared type wins; returns undefined when
+ * nothing declared is acceptable (406).
+ */
+export function negotiateMediaType(
+  accept: string | string[] | undefined,
+  available: string[]
+): string | undefined {
+  const header = Array.isArray(accept) ? accept.join(',') : accept;
+  if (!header?.trim()) return available[0];
+
+  const entries = parseAccept(header);
+  let best: { type: string; q: number } | undefined;
+
+  for (const type of available) {
+    const mediaType = getMediaType(type)!;
+    // The most specific matching range decides the quality of a type
+    const match = entries
+      .filter((entry) => matchesMediaType(mediaType, entry.range))
+      .sort((a, b) => b.specificity - a.specificity)[0];
+
+    if (match && match.q > 0 && (!best || match.q > best.q)) {
+      best = { type, q: match.q };
+    }
+  }
+
+  return best?.type;
+}
@@ -0,0 +1,100 @@
+/**
+ * CORS configuration for the OpenAPI handler
+ */
+export interface CorsOptions {
+  /**
+   * Allowed origins: `'*'`, a single origin, a list, or a predicate.
+   * With `credentials`, `'*'` reflects the request origin instead.
+   */
+  origin: '*' | string | string[] | ((origin: string) => boolean);
+  /** Send `Access-Control-Allow-Credentials: true` */
+  credentials?: boolean;
+  /** Request headers allowed in preflight (default: reflect the requested headers) */
+  allowedHeaders?: string[];
+  /** Response headers exposed to the browser */
+  exposedHeaders?: string[];
+  /** Seconds a preflight result may be cached */
+  maxAge?: number;
+}
+
+/**
+ * Read a single header value
+ */
+function getHeader(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Check whether an origin is allowed by the configuration
+ */
+function isOriginAllowed(options: CorsOptions, origin: string): boolean {
+  const { origin: allowed } = options;
+  if (allowed === '*') return true;
+  if (typeof allowed === 'function') return allowed(origin);
+  if (Array.isArray(allowed)) return allowed.includes(origin);
+  return allowed === origin;
+}
+
+/**
+ * Check whether a request is a CORS preflight
+ */
+export function isPreflightRequest(
+  method: string,
+  headers: Record<string, string | string[] | undefined>
+): boolean {
+  return (
+    method.toUpperCase() === 'OPTIONS' &&
+    getHeader(headers, 'origin') !== undefined &&
+    getHeader(headers, 'access-control-request-method') !== undefined
+  );
+}
+
+/**
+ * Compute the CORS response headers for a request.
+ * Returns no headers for same-origin requests or disallowed origins.
+ */
+export function getCorsHeaders(
+  options: CorsOptions,
+  headers: Record<string, string | string[] | undefined>,
+  preflight?: { allowedMethods: string[] }
+): Record<string, string> {
+  const origin = getHeader(headers, 'origin');
+  if (!origin || !isOriginAllowed(options, origin)) return {};
+
+  const result: Record<string, string> = {
+    'Access-Control-Allow-Origin': options.origin === '*' && !options.credentials ? '*' : origin,
+  };
+
+  if (result['Access-Control-Allow-Origin'] !== '*') {
+    result.Vary = 'Origin';
+  }
+
+  if (options.credentials) {
+    result['Access-Control-Allow-Credentials'] = 'true';
+  }
+
+  if (!preflight) {
+    if (options.exposedHeaders?.length) {
+      result['Access-Control-Expose-Headers'] = options.exposedHeaders.join(', ');
+    }
+    return result;
+  }
+
+  result['Access-Control-Allow-Methods'] = preflight.allowedMethods.join(', ');
+
+  const requestedHeaders = getHeader(headers, 'access-control-request-headers');
+  const allowedHeaders = options.allowedHeaders?.join(', ') ?? requestedHeaders;
+  if (allowedHeaders) {
+    result['Access-Control-Allow-Headers'] = allowedHeaders;
+    if (!options.allowedHeaders) {
+      result.Vary = result.Vary ? `${result.Vary}, Access-Control-Request-Headers` : 'Access-Control-Request-Headers';
+    }
+  }
+
+  if (options.maxAge !== undefined) {
+    result['Access-Control-Max-Age'] = String(options.maxAge);
+  }
+
+  return result;
+}
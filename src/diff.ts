@@ -0,0 +1,672 @@
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+
+/**
+ * Impact of a change on existing REST consumers
+ */
+export type OpenApiChangeSeverity = 'breaking' | 'non-breaking' | 'deprecation';
+
+/**
+ * Kind of change found by {@link diffOpenApiDocuments}
+ */
+export type OpenApiChangeCode =
+  | 'OPERATION_REMOVED'
+  | 'OPERATION_ADDED'
+  | 'PATH_PARAMETER_RENAMED'
+  | 'PARAMETER_REMOVED'
+  | 'PARAMETER_ADDED'
+  | 'PARAMETER_REQUIREMENT_CHANGED'
+  | 'REQUEST_BODY_REQUIREMENT_CHANGED'
+  | 'MEDIA_TYPE_REMOVED'
+  | 'MEDIA_TYPE_ADDED'
+  | 'RESPONSE_REMOVED'
+  | 'RESPONSE_ADDED'
+  | 'TYPE_CHANGED'
+  | 'ENUM_CHANGED'
+  | 'PROPERTY_REMOVED'
+  | 'PROPERTY_ADDED'
+  | 'PROPERTY_REQUIREMENT_CHANGED'
+  | 'DEPRECATED';
+
+/**
+ * A single difference between two documents
+ */
+export interface OpenApiChange {
+  code: OpenApiChangeCode;
+  severity: OpenApiChangeSeverity;
+  /** Affected operation, e.g. `GET /users/{id}` */
+  operation: string;
+  /**
+   * JSON pointer to the changed location: into the new document, or into the old one for
+   * removals. Changes inside referenced components point into `components`.
+   */
+  pointer: string;
+  message: string;
+}
+
+type OpenApiDocument = OpenAPIV3_1.Document | OpenAPIV3.Document;
+type JsonObject = Record<string, unknown>;
+
+/** Which side of the exchange a schema describes: consumers send requests and read responses */
+type Direction = 'request' | 'response';
+
+/**
+ * A value located in a document
+ */
+interface Located {
+  value: JsonObject;
+  pointer: string;
+}
+
+/**
+ * Comparison state of one operation
+ */
+interface DiffState {
+  before: OpenApiDocument;
+  after: OpenApiDocument;
+  operation: string;
+  changes: OpenApiChange[];
+  /** Schema pairs already compared (recursive schemas) */
+  seen: Set<string>;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const PARAM_PATTERN = /\{([^}]+)\}/g;
+
+/**
+ * Escape a JSON pointer segment
+ */
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Check if a value is a plain object
+ */
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Follow local `$ref`s (`#/components/...`), tracking the pointer of the resolved value
+ */
+function resolve(document: OpenApiDocument, value: unknown, pointer: string): Located | undefined {
+  const seen = new Set<string>();
+  let current: Located = { value: value as JsonObject, pointer };
+
+  while (isObject(current.value) && typeof current.value.$ref === 'string') {
+    const ref = current.value.$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) return undefined;
+    seen.add(ref);
+
+    const segments = ref
+      .slice(2)
+      .split('/')
+      .map((segment) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+    let target: unknown = document;
+    for (const segment of segments) {
+      target = isObject(target) ? target[segment] : undefined;
+    }
+    current = { value: target as JsonObject, pointer: `/${segments.map(escapePointer).join('/')}` };
+  }
+
+  return isObject(current.value) ? current : undefined;
+}
+
+/**
+ * Stable serialization, so equal schemas compare equal
+ */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (isObject(value)) {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Record a change
+ */
+function report(
+  state: DiffState,
+  code: OpenApiChangeCode,
+  severity: OpenApiChangeSeverity,
+  pointer: string,
+  message: string
+): void {
+  state.changes.push({ code, severity, operation: state.operation, pointer, message });
+}
+
+/**
+ * Severity of a change that narrows what is accepted (requests) or widens what
+ * is returned (responses)
+ */
+function severityFor(direction: Direction, narrows: boolean, widens: boolean): OpenApiChangeSeverity {
+  return (direction === 'request' ? narrows : widens) ? 'breaking' : 'non-breaking';
+}
+
+/**
+ * Shape of a schema once `null` is set aside
+ */
+interface SchemaShape {
+  nullable: boolean;
+  /** Schema describing the non-null values */
+  core: Located;
+  /** Non-null members of a union of several shapes */
+  union?: unknown[];
+  /** Non-null JSON types, undefined when unconstrained */
+  types?: string[];
+}
+
+/**
+ * Split a schema into nullability and the shape of its non-null values,
+ * unwrapping `oneOf`/`anyOf` with a single non-null member
+ */
+function getShape(document: OpenApiDocument, located: Located): SchemaShape {
+  const schema = located.value;
+  const membersKey = Array.isArray(schema.oneOf) ? 'oneOf' : Array.isArray(schema.anyOf) ? 'anyOf' : undefined;
+
+  if (membersKey) {
+    const members = (schema[membersKey] as unknown[]).map((member, index) => ({
+      member,
+      located: resolve(document, member, `${located.pointer}/${membersKey}/${index}`),
+    }));
+    const nonNull = members.filter(({ located: resolved }) => resolved?.value.type !== 'null');
+    const nullable = nonNull.length < members.length;
+
+    if (nonNull.length === 1 && nonNull[0].located) {
+      const inner = getShape(document, nonNull[0].located);
+      return { ...inner, nullable: nullable || inner.nullable };
+    }
+
+    // Unions of literals (how Typia emits `'a' | 'b'`) compare as enums
+    const literals = nonNull.map(({ located: resolved }) => resolved?.value);
+    if (literals.length > 0 && literals.every((literal) => literal !== undefined && getEnum(literal) !== undefined)) {
+      const types = [...new Set(literals.map((literal) => literal!.type).filter((type) => typeof type === 'string'))];
+      return {
+        nullable,
+        core: { value: { enum: literals.flatMap((literal) => getEnum(literal!)!) }, pointer: located.pointer },
+        types: types.length > 0 ? (types as string[]) : undefined,
+      };
+    }
+    return { nullable, core: located, union: nonNull.map(({ member }) => member) };
+  }
+
+  const declared = Array.isArray(schema.type) ? schema.type : typeof schema.type === 'string' ? [schema.type] : [];
+  const nullable =
+    declared.includes('null') ||
+    schema.nullable === true ||
+    schema.const === null ||
+    (Array.isArray(schema.enum) && schema.enum.includes(null));
+  const types = declared.filter((type) => type !== 'null') as string[];
+  return { nullable, core: located, types: types.length > 0 ? types : undefined };
+}
+
+/**
+ * Check whether a type set accepts values of a type (`number` covers `integer`)
+ */
+function coversType(types: string[], type: string): boolean {
+  return types.includes(type) || (type === 'integer' && types.includes('number'));
+}
+
+/**
+ * Allowed non-null values of a schema, undefined when not enumerated
+ */
+function getEnum(schema: JsonObject): unknown[] | undefined {
+  const values = 'const' in schema ? [schema.const] : Array.isArray(schema.enum) ? schema.enum : undefined;
+  return values?.filter((value) => value !== null);
+}
+
+/**
+ * Compare enumerated values
+ */
+function diffEnums(state: DiffState, before: JsonObject, after: Located, direction: Direction): void {
+  const beforeValues = getEnum(before);
+  const afterValues = getEnum(after.value);
+  if (!beforeValues && !afterValues) return;
+
+  const format = (values: unknown[]) => values.map((value) => JSON.stringify(value)).join(', ');
+
+  if (!beforeValues || !afterValues) {
+    const narrows = !beforeValues;
+    report(
+      state,
+      'ENUM_CHANGED',
+      severityFor(direction, narrows, !narrows),
+      after.pointer,
+      narrows ? `Values restricted to ${format(afterValues!)}` : 'Values no longer restricted'
+    );
+    return;
+  }
+
+  const beforeKeys = new Set(beforeValues.map(canonical));
+  const afterKeys = new Set(afterValues.map(canonical));
+  const removed = beforeValues.filter((value) => !afterKeys.has(canonical(value)));
+  const added = afterValues.filter((value) => !beforeKeys.has(canonical(value)));
+
+  if (removed.length > 0) {
+    report(state, 'ENUM_CHANGED', severityFor(direction, true, false), after.pointer, `Values removed: ${format(removed)}`);
+  }
+  if (added.length > 0) {
+    report(state, 'ENUM_CHANGED', severityFor(direction, false, true), after.pointer, `Values added: ${format(added)}`);
+  }
+}
+
+/**
+ * Compare object properties and their requiredness
+ */
+function diffProperties(state: DiffState, before: Located, after: Located, direction: Direction): void {
+  const beforeProperties = isObject(before.value.properties) ? before.value.properties : {};
+  const afterProperties = isObject(after.value.properties) ? after.value.properties : {};
+  const beforeRequired = new Set(Array.isArray(before.value.required) ? (before.value.required as string[]) : []);
+  const afterRequired = new Set(Array.isArray(after.value.required) ? (after.value.required as string[]) : []);
+
+  for (const name of Object.keys(beforeProperties)) {
+    if (name in afterProperties) continue;
+    // Extra request properties are ignored; consumers may read required response properties
+    const required = beforeRequired.has(name);
+    report(
+      state,
+      'PROPERTY_REMOVED',
+      direction === 'response' && required ? 'breaking' : 'non-breaking',
+      `${before.pointer}/properties/${escapePointer(name)}`,
+      `${required ? 'Required' : 'Optional'} property "${name}" removed`
+    );
+  }
+
+  for (const [name, schema] of Object.entries(afterProperties)) {
+    const pointer = `${after.pointer}/properties/${escapePointer(name)}`;
+    const required = afterRequired.has(name);
+
+    if (!(name in beforeProperties)) {
+      report(
+        state,
+        'PROPERTY_ADDED',
+        direction === 'request' && required ? 'breaking' : 'non-breaking',
+        pointer,
+        `${required ? 'Required' : 'Optional'} property "${name}" added`
+      );
+      continue;
+    }
+
+    if (beforeRequired.has(name) !== required) {
+      report(
+        state,
+        'PROPERTY_REQUIREMENT_CHANGED',
+        severityFor(direction, required, !required),
+        pointer,
+        `Property "${name}" became ${required ? 'required' : 'optional'}`
+      );
+    }
+
+    diffSchemas(
+      state,
+      { value: beforeProperties[name] as JsonObject, pointer: `${before.pointer}/properties/${escapePointer(name)}` },
+      { value: schema as JsonObject, pointer },
+      direction
+    );
+  }
+
+  if (isObject(before.value.additionalProperties) && isObject(after.value.additionalProperties)) {
+    diffSchemas(
+      state,
+      { value: before.value.additionalProperties, pointer: `${before.pointer}/additionalProperties` },
+      { value: after.value.additionalProperties, pointer: `${after.pointer}/additionalProperties` },
+      direction
+    );
+  }
+}
+
+/**
+ * Compare two schemas, following `$ref`s into each document's components
+ */
+function diffSchemas(state: DiffState, beforeAt: Located, afterAt: Located, direction: Direction): void {
+  const before = resolve(state.before, beforeAt.value, beforeAt.pointer);
+  const after = resolve(state.after, afterAt.value, afterAt.pointer);
+  if (!before || !after) return;
+
+  const key = `${direction}:${before.pointer}:${after.pointer}`;
+  if (state.seen.has(key)) return;
+  state.seen.add(key);
+
+  if (!before.value.deprecated && after.value.deprecated) {
+    report(state, 'DEPRECATED', 'deprecation', after.pointer, 'Schema deprecated');
+  }
+
+  const beforeShape = getShape(state.before, before);
+  const afterShape = getShape(state.after, after);
+  const coreKey = `${direction}:${beforeShape.core.pointer}:${afterShape.core.pointer}`;
+  const coreSeen = coreKey !== key && state.seen.has(coreKey);
+  state.seen.add(coreKey);
+
+  if (beforeShape.nullable !== afterShape.nullable) {
+    report(
+      state,
+      'TYPE_CHANGED',
+      severityFor(direction, beforeShape.nullable, afterShape.nullable),
+      after.pointer,
+      afterShape.nullable ? 'Null is now allowed' : 'Null is no longer allowed'
+    );
+  }
+  if (coreSeen) return;
+
+  // Unions are compared member by member, without looking inside
+  if (beforeShape.union || afterShape.union) {
+    if (!beforeShape.union || !afterShape.union) {
+      report(state, 'TYPE_CHANGED', 'breaking', after.pointer, 'Schema changed to or from a union');
+      return;
+    }
+    const beforeMembers = new Set(beforeShape.union.map(canonical));
+    const afterMembers = new Set(afterShape.union.map(canonical));
+    if (beforeShape.union.some((member) => !afterMembers.has(canonical(member)))) {
+      report(state, 'TYPE_CHANGED', severityFor(direction, true, false), after.pointer, 'Union members removed or changed');
+    }
+    if (afterShape.union.some((member) => !beforeMembers.has(canonical(member)))) {
+      report(state, 'TYPE_CHANGED', severityFor(direction, false, true), after.pointer, 'Union members added or changed');
+    }
+    return;
+  }
+
+  const { types: beforeTypes } = beforeShape;
+  const { types: afterTypes } = afterShape;
+  if (canonical(beforeTypes?.slice().sort()) !== canonical(afterTypes?.slice().sort())) {
+    // An unconstrained side accepts everything the other one does
+    const narrows = !beforeTypes || (!!afterTypes && beforeTypes.some((type) => !coversType(afterTypes, type)));
+    const widens = !afterTypes || (!!beforeTypes && afterTypes.some((type) => !coversType(beforeTypes, type)));
+    const describe = (types?: string[]) => (types ? types.join(' | ') : 'any');
+    report(
+      state,
+      'TYPE_CHANGED',
+      severityFor(direction, narrows, widens),
+      after.pointer,
+      `Type changed from ${describe(beforeTypes)} to ${describe(afterTypes)}`
+    );
+    if (beforeTypes && afterTypes && !beforeTypes.some((type) => afterTypes.includes(type))) return;
+  }
+
+  diffEnums(state, beforeShape.core.value, afterShape.core, direction);
+  diffProperties(state, beforeShape.core, afterShape.core, direction);
+
+  const beforeItems = beforeShape.core.value.items;
+  const afterItems = afterShape.core.value.items;
+  if (isObject(beforeItems) && isObject(afterItems)) {
+    diffSchemas(
+      state,
+      { value: beforeItems, pointer: `${beforeShape.core.pointer}/items` },
+      { value: afterItems, pointer: `${afterShape.core.pointer}/items` },
+      direction
+    );
+  }
+}
+
+/**
+ * Compare the schemas of each media type in a `content` map
+ */
+function diffContent(
+  state: DiffState,
+  before: Located | undefined,
+  after: Located | undefined,
+  direction: Direction
+): void {
+  const beforeContent = isObject(before?.value.content) ? before!.value.content : {};
+  const afterContent = isObject(after?.value.content) ? after!.value.content : {};
+
+  for (const mediaType of Object.keys(beforeContent)) {
+    if (mediaType in afterContent) continue;
+    report(
+      state,
+      'MEDIA_TYPE_REMOVED',
+      'breaking',
+      `${before!.pointer}/content/${escapePointer(mediaType)}`,
+      `${direction === 'request' ? 'Request' : 'Response'} media type ${mediaType} removed`
+    );
+  }
+
+  for (const [mediaType, media] of Object.entries(afterContent)) {
+    const pointer = `${after!.pointer}/content/${escapePointer(mediaType)}`;
+    if (!(mediaType in beforeContent)) {
+      report(
+        state,
+        'MEDIA_TYPE_ADDED',
+        'non-breaking',
+        pointer,
+        `${direction === 'request' ? 'Request' : 'Response'} media type ${mediaType} added`
+      );
+      continue;
+    }
+
+    const beforeSchema = (beforeContent[mediaType] as JsonObject | undefined)?.schema;
+    const afterSchema = (media as JsonObject | undefined)?.schema;
+    if (beforeSchema !== undefined && afterSchema !== undefined) {
+      diffSchemas(
+        state,
+        { value: beforeSchema as JsonObject, pointer: `${before!.pointer}/content/${escapePointer(mediaType)}/schema` },
+        { value: afterSchema as JsonObject, pointer: `${pointer}/schema` },
+        direction
+      );
+    }
+  }
+}
+
+/**
+ * Compare query, header, cookie and path parameters.
+ * Path parameters are matched by position, so renames are compared too.
+ */
+function diffParameters(
+  state: DiffState,
+  before: Located,
+  after: Located,
+  pathRenames: Map<string, string>
+): void {
+  const collect = (document: OpenApiDocument, operation: Located) => {
+    const parameters = new Map<string, Located>();
+    const list = Array.isArray(operation.value.parameters) ? operation.value.parameters : [];
+    list.forEach((parameter, index) => {
+      const located = resolve(document, parameter, `${operation.pointer}/parameters/${index}`);
+      if (located) parameters.set(`${located.value.in}:${located.value.name}`, located);
+    });
+    return parameters;
+  };
+
+  const beforeParameters = collect(state.before, before);
+  const afterParameters = collect(state.after, after);
+  const afterKey = (key: string) => {
+    const [location, name] = [key.slice(0, key.indexOf(':')), key.slice(key.indexOf(':') + 1)];
+    return location === 'path' && pathRenames.has(name) ? `path:${pathRenames.get(name)}` : key;
+  };
+  const matched = new Set<string>();
+
+  for (const [key, parameter] of beforeParameters) {
+    const counterpart = afterParameters.get(afterKey(key));
+    const { in: location, name } = parameter.value as { in: string; name: string };
+
+    if (!counterpart) {
+      report(state, 'PARAMETER_REMOVED', 'breaking', parameter.pointer, `${location} parameter "${name}" removed`);
+      continue;
+    }
+    matched.add(afterKey(key));
+
+    const wasRequired = parameter.value.required === true;
+    const isRequired = counterpart.value.required === true;
+    if (wasRequired !== isRequired) {
+      report(
+        state,
+        'PARAMETER_REQUIREMENT_CHANGED',
+        isRequired ? 'breaking' : 'non-breaking',
+        counterpart.pointer,
+        `${location} parameter "${name}" became ${isRequired ? 'required' : 'optional'}`
+      );
+    }
+    if (!parameter.value.deprecated && counterpart.value.deprecated) {
+      report(state, 'DEPRECATED', 'deprecation', counterpart.pointer, `${location} parameter "${name}" deprecated`);
+    }
+    if (parameter.value.schema !== undefined && counterpart.value.schema !== undefined) {
+      diffSchemas(
+        state,
+        { value: parameter.value.schema as JsonObject, pointer: `${parameter.pointer}/schema` },
+        { value: counterpart.value.schema as JsonObject, pointer: `${counterpart.pointer}/schema` },
+        'request'
+      );
+    }
+  }
+
+  for (const [key, parameter] of afterParameters) {
+    if (matched.has(key)) continue;
+    const { in: location, name, required } = parameter.value as { in: string; name: string; required?: boolean };
+    report(
+      state,
+      'PARAMETER_ADDED',
+      required ? 'breaking' : 'non-breaking',
+      parameter.pointer,
+      `${required ? 'Required' : 'Optional'} ${location} parameter "${name}" added`
+    );
+  }
+}
+
+/**
+ * Compare responses by status code, then their content
+ */
+function diffResponses(state: DiffState, before: Located, after: Located): void {
+  const beforeResponses = isObject(before.value.responses) ? before.value.responses : {};
+  const afterResponses = isObject(after.value.responses) ? after.value.responses : {};
+
+  for (const status of Object.keys(beforeResponses)) {
+    if (status in afterResponses) continue;
+    report(
+      state,
+      'RESPONSE_REMOVED',
+      status.startsWith('2') ? 'breaking' : 'non-breaking',
+      `${before.pointer}/responses/${escapePointer(status)}`,
+      `Response ${status} removed`
+    );
+  }
+
+  for (const [status, response] of Object.entries(afterResponses)) {
+    const pointer = `${after.pointer}/responses/${escapePointer(status)}`;
+    if (!(status in beforeResponses)) {
+      report(state, 'RESPONSE_ADDED', 'non-breaking', pointer, `Response ${status} added`);
+      continue;
+    }
+    diffContent(
+      state,
+      resolve(state.before, beforeResponses[status], `${before.pointer}/responses/${escapePointer(status)}`),
+      resolve(state.after, response, pointer),
+      'response'
+    );
+  }
+}
+
+/**
+ * Compare two operations matched by method and path shape
+ */
+function diffOperation(state: DiffState, before: Located, after: Located, pathRenames: Map<string, string>): void {
+  if (!before.value.deprecated && after.value.deprecated) {
+    report(state, 'DEPRECATED', 'deprecation', after.pointer, 'Operation deprecated');
+  }
+
+  diffParameters(state, before, after, pathRenames);
+
+  const beforeBody = resolve(state.before, before.value.requestBody, `${before.pointer}/requestBody`);
+  const afterBody = resolve(state.after, after.value.requestBody, `${after.pointer}/requestBody`);
+  const wasRequired = beforeBody?.value.required === true;
+  const isRequired = afterBody?.value.required === true;
+  if (wasRequired !== isRequired) {
+    report(
+      state,
+      'REQUEST_BODY_REQUIREMENT_CHANGED',
+      isRequired ? 'breaking' : 'non-breaking',
+      afterBody?.pointer ?? beforeBody!.pointer,
+      `Request body became ${isRequired ? 'required' : 'optional'}`
+    );
+  }
+  diffContent(state, beforeBody, afterBody, 'request');
+
+  diffResponses(state, before, after);
+}
+
+/**
+ * Index operations by method and path with parameter names blanked out
+ */
+function getOperations(document: OpenApiDocument): Map<string, { path: string; method: string; located: Located }> {
+  const operations = new Map<string, { path: string; method: string; located: Located }>();
+  for (const [path, pathItem] of Object.entries(document.paths ?? {}) as [string, unknown][]) {
+    if (!isObject(pathItem)) continue;
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!isObject(operation)) continue;
+      operations.set(`${method} ${path.replace(PARAM_PATTERN, '{}')}`, {
+        path,
+        method,
+        located: { value: operation, pointer: `/paths/${escapePointer(path)}/${method}` },
+      });
+    }
+  }
+  return operations;
+}
+
+/**
+ * Compare two OpenAPI documents (3.0 or 3.1, e.g. from `generateOpenApiDocument`) and
+ * classify every change by its impact on existing REST consumers.
+ *
+ * Operations are matched by method and path, ignoring path parameter names (renames are
+ * reported). Schemas are compared through `$ref`s: narrowing what a request accepts or
+ * widening what a response returns is breaking, the opposite is not.
+ *
+ * @example
+ * ```typescript
+ * import { diffOpenApiDocuments } from 'trpc-typia-openapi';
+ *
+ * const changes = diffOpenApiDocuments(previousDocument, generateOpenApiDocument(appRouter, options));
+ * const breaking = changes.filter((change) => change.severity === 'breaking');
+ * ```
+ */
+export function diffOpenApiDocuments(before: OpenApiDocument, after: OpenApiDocument): OpenApiChange[] {
+  const changes: OpenApiChange[] = [];
+  const beforeOperations = getOperations(before);
+  const afterOperations = getOperations(after);
+  const keys = [...new Set([...beforeOperations.keys(), ...afterOperations.keys()])].sort();
+
+  for (const key of keys) {
+    const previous = beforeOperations.get(key);
+    const next = afterOperations.get(key);
+    const { method, path } = (next ?? previous)!;
+    const state: DiffState = {
+      before,
+      after,
+      operation: `${method.toUpperCase()} ${path}`,
+      changes,
+      seen: new Set(),
+    };
+
+    if (!next) {
+      report(state, 'OPERATION_REMOVED', 'breaking', previous!.located.pointer, 'Operation removed');
+      continue;
+    }
+    if (!previous) {
+      report(state, 'OPERATION_ADDED', 'non-breaking', next.located.pointer, 'Operation added');
+      continue;
+    }
+
+    const previousNames = [...previous.path.matchAll(PARAM_PATTERN)].map((match) => match[1]);
+    const nextNames = [...next.path.matchAll(PARAM_PATTERN)].map((match) => match[1]);
+    const pathRenames = new Map<string, string>();
+    previousNames.forEach((name, index) => {
+      if (name === nextNames[index]) return;
+      pathRenames.set(name, nextNames[index]);
+      // Generated clients pass path parameters by name, so a rename breaks them
+      report(
+        state,
+        'PATH_PARAMETER_RENAMED',
+        'breaking',
+        `/paths/${escapePointer(next.path)}`,
+        `Path parameter "${name}" renamed to "${nextNames[index]}"`
+      );
+    });
+
+    diffOperation(state, previous.located, next.located, pathRenames);
+  }
+
+  return changes;
+}
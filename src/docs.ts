@@ -0,0 +1,179 @@
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import type { AnyRouter } from '@trpc/server';
+import type { GenerateOpenApiDocumentOptions } from './types';
+import { generateOpenApiDocument } from './generator';
+import { toYaml } from './yaml';
+
+/**
+ * Interactive reference renderer
+ */
+export type DocsUi = 'swagger-ui' | 'redoc' | 'scalar';
+
+/**
+ * A docs page asset: a URL, or inline source
+ */
+export type DocsAsset = string | { inline: string };
+
+/**
+ * Options for serving the OpenAPI document and reference page
+ */
+export interface OpenApiDocsOptions extends Omit<GenerateOpenApiDocumentOptions, 'baseUrl'> {
+  /** Origin the API is served from; combined with the adapter's basePath (default: '') */
+  baseUrl?: string;
+  /** Path of the JSON document, relative to basePath (default: '/openapi.json') */
+  jsonPath?: string;
+  /** Path of the YAML document, or false to disable (default: '/openapi.yaml') */
+  yamlPath?: string | false;
+  /** Path of the HTML reference page, or false to disable (default: '/docs') */
+  uiPath?: string | false;
+  /** Reference renderer (default: 'swagger-ui') */
+  ui?: DocsUi;
+  /** Override the renderer's script and stylesheet (URL or inline source) */
+  assets?: {
+    script?: DocsAsset;
+    stylesheet?: DocsAsset;
+  };
+}
+
+/**
+ * Pre-rendered docs content, built once per registration
+ */
+export interface OpenApiDocsContent {
+  document: OpenAPIV3_1.Document | OpenAPIV3.Document;
+  json: string;
+  yaml: string;
+  html: string;
+  jsonPath: string;
+  yamlPath: string | false;
+  uiPath: string | false;
+}
+
+const DEFAULT_ASSETS: Record<DocsUi, { script: string; stylesheet?: string }> = {
+  'swagger-ui': {
+    script: 'https://cdn.jsdelivr.net/npm/swagger-ui-dist@5/swagger-ui-bundle.js',
+    stylesheet: 'https://cdn.jsdelivr.net/npm/swagger-ui-dist@5/swagger-ui.css',
+  },
+  redoc: {
+    script: 'https://cdn.jsdelivr.net/npm/redoc@2/bundles/redoc.standalone.js',
+  },
+  scalar: {
+    script: 'https://cdn.jsdelivr.net/npm/@scalar/api-reference',
+  },
+};
+
+/**
+ * Escape text for use in HTML attributes and content
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a script tag from a URL or inline source
+ */
+function scriptTag(asset: DocsAsset): string {
+  if (typeof asset === 'string') return `<script src="${escapeHtml(asset)}"></script>`;
+  return `<script>${asset.inline.replace(/<\/script/gi, '<\\/script')}</script>`;
+}
+
+/**
+ * Render a stylesheet tag from a URL or inline source
+ */
+function styleTag(asset: DocsAsset): string {
+  if (typeof asset === 'string') return `<link rel="stylesheet" href="${escapeHtml(asset)}" />`;
+  return `<style>${asset.inline.replace(/<\/style/gi, '<\\/style')}</style>`;
+}
+
+/**
+ * Render a self-contained HTML reference page for a spec URL
+ */
+export function renderDocsHtml(opts: {
+  title: string;
+  specUrl: string;
+  ui?: DocsUi;
+  assets?: OpenApiDocsOptions['assets'];
+}): string {
+  const { title, specUrl, ui = 'swagger-ui', assets } = opts;
+  const script = assets?.script ?? DEFAULT_ASSETS[ui].script;
+  const stylesheet = assets?.stylesheet ?? DEFAULT_ASSETS[ui].stylesheet;
+  const url = JSON.stringify(specUrl);
+
+  let body: string;
+  switch (ui) {
+    case 'redoc':
+      body = `<redoc spec-url="${escapeHtml(specUrl)}"></redoc>\n${scriptTag(script)}`;
+      break;
+    case 'scalar':
+      body = `<script id="api-reference" data-url="${escapeHtml(specUrl)}"></script>\n${scriptTag(script)}`;
+      break;
+    default:
+      body = [
+        '<div id="swagger-ui"></div>',
+        scriptTag(script),
+        `<script>window.onload = () => { window.ui = SwaggerUIBundle({ url: ${url}, dom_id: '#swagger-ui' }); };</script>`,
+      ].join('\n');
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1" />',
+    `<title>${escapeHtml(title)}</title>`,
+    ...(stylesheet ? [styleTag(stylesheet)] : []),
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generate the OpenAPI document and every docs representation once.
+ * The `servers` entry defaults to where the routes are mounted (baseUrl + basePath).
+ */
+export function buildOpenApiDocs(
+  router: AnyRouter,
+  options: OpenApiDocsOptions,
+  basePath: string = ''
+): OpenApiDocsContent {
+  const {
+    baseUrl = '',
+    jsonPath = '/openapi.json',
+    yamlPath = '/openapi.yaml',
+    uiPath = '/docs',
+    ui,
+    assets,
+    ...documentOptions
+  } = options;
+
+  const serverUrl = `${baseUrl}${basePath}` || '/';
+  const document = generateOpenApiDocument(router, {
+    ...documentOptions,
+    baseUrl: serverUrl,
+    servers: documentOptions.servers || [{ url: serverUrl }],
+  });
+
+  return {
+    document,
+    json: JSON.stringify(document),
+    yaml: toYaml(document),
+    html: renderDocsHtml({
+      title: options.title,
+      // Same-origin path, so the page works wherever the API is hosted
+      specUrl: `${basePath}${jsonPath}`,
+      ui,
+      assets,
+    }),
+    jsonPath,
+    yamlPath,
+    uiPath,
+  };
+}
@@ -0,0 +1,171 @@
+import type { OpenAPIV3_1 } from 'openapi-types';
+import { TypeGuardError } from 'typia';
+
+/**
+ * A single input validation failure, mirroring Typia's `IValidation.IError`
+ */
+export interface ValidationIssue {
+  /** Location of the invalid value (e.g. `$input.email`) */
+  path: string;
+  /** Expected type as reported by Typia */
+  expected: string;
+  /** Received value */
+  value: unknown;
+}
+
+/**
+ * Body of a 400 response caused by input validation
+ */
+export interface ValidationErrorBody {
+  message: string;
+  code: 'BAD_REQUEST';
+  issues: ValidationIssue[];
+}
+
+/**
+ * Error carrying every validation issue of a request.
+ * Used as the `cause` of a BAD_REQUEST TRPCError.
+ */
+export class TypiaValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], message?: string) {
+    super(message ?? describeIssues(issues));
+    this.name = 'TypiaValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * HTTP status for each tRPC error code
+ */
+export const TRPC_ERROR_STATUS: Record<string, number> = {
+  PARSE_ERROR: 400,
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  METHOD_NOT_SUPPORTED: 405,
+  TIMEOUT: 408,
+  CONFLICT: 409,
+  PRECONDITION_FAILED: 412,
+  PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  UNPROCESSABLE_CONTENT: 422,
+  TOO_MANY_REQUESTS: 429,
+  CLIENT_CLOSED_REQUEST: 499,
+  INTERNAL_SERVER_ERROR: 500,
+  NOT_IMPLEMENTED: 501,
+};
+
+/**
+ * Map a tRPC error code to its HTTP status (500 for unknown codes)
+ */
+export function getStatusFromErrorCode(code: string): number {
+  return TRPC_ERROR_STATUS[code] || 500;
+}
+
+/**
+ * Name of the component schema documenting generic errors
+ */
+export const ERROR_SCHEMA_NAME = 'ErrorResponse';
+
+/**
+ * JSON schema of the generic error body returned by the handler
+ */
+export const defaultErrorSchema: OpenAPIV3_1.SchemaObject = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    code: { type: 'string' },
+    data: {
+      type: 'object',
+      additionalProperties: true,
+    },
+  },
+  required: ['message', 'code'],
+};
+
+/**
+ * Name of the component schema documenting validation errors
+ */
+export const VALIDATION_ERROR_SCHEMA_NAME = 'ValidationErrorResponse';
+
+/**
+ * JSON schema of {@link ValidationErrorBody}
+ */
+export const validationErrorSchema: OpenAPIV3_1.SchemaObject = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    code: { type: 'string', const: 'BAD_REQUEST' },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          expected: { type: 'string' },
+          value: {},
+        },
+        required: ['path', 'expected'],
+      },
+    },
+  },
+  required: ['message', 'code', 'issues'],
+};
+
+/**
+ * Build a one-line summary of validation issues
+ */
+function describeIssues(issues: ValidationIssue[]): string {
+  if (issues.length === 0) return 'Input validation failed';
+  const [first] = issues;
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+  return `Invalid input at ${first.path}: expected ${first.expected}${more}`;
+}
+
+/**
+ * Check for a Typia TypeGuardError, tolerating duplicate typia copies
+ */
+function isTypeGuardError(error: unknown): error is TypeGuardError {
+  if (error instanceof TypeGuardError) return true;
+  return (
+    error instanceof Error &&
+    error.name === 'TypeGuardError' &&
+    'expected' in error &&
+    'path' in error
+  );
+}
+
+/**
+ * Extract validation issues from an error raised while parsing input.
+ *
+ * Walks the `cause` chain looking for a Typia `TypeGuardError` (from
+ * `createAssert`) or a {@link TypiaValidationError} (from `createValidate`).
+ * Only BAD_REQUEST errors qualify, so failed output validation is still
+ * reported as a server error.
+ */
+export function getValidationIssues(error: unknown): ValidationIssue[] | undefined {
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === 'string' && code !== 'BAD_REQUEST') return undefined;
+
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof TypiaValidationError) {
+      return current.issues;
+    }
+    if (isTypeGuardError(current)) {
+      return [
+        {
+          path: current.path ?? '$input',
+          expected: current.expected,
+          value: current.value,
+        },
+      ];
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,36 @@
+import type { OpenApiMeta, OpenApiOperationFilterOptions } from './types';
+
+/**
+ * Compile a procedure path glob: `*` matches within a segment, `**` across segments
+ */
+function globToRegExp(glob: string): RegExp {
+  const escape = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  const source = glob
+    .split('**')
+    .map((part) => part.split('*').map(escape).join('[^.]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Create a predicate telling whether a procedure belongs in the generated output.
+ * Operations marked `internal` are left out unless `includeInternal` is set.
+ */
+export function createOperationFilter(
+  options: OpenApiOperationFilterOptions
+): (procedurePath: string, meta: OpenApiMeta) => boolean {
+  const { includeTags, excludeTags, includePaths, excludePaths, filter, includeInternal = false } = options;
+  const includePatterns = includePaths?.map(globToRegExp);
+  const excludePatterns = excludePaths?.map(globToRegExp);
+
+  return (procedurePath, meta) => {
+    const tags = meta.openapi?.tags ?? [];
+
+    if (meta.openapi?.internal && !includeInternal) return false;
+    if (includeTags && !tags.some((tag) => includeTags.includes(tag))) return false;
+    if (excludeTags && tags.some((tag) => excludeTags.includes(tag))) return false;
+    if (includePatterns && !includePatterns.some((pattern) => pattern.test(procedurePath))) return false;
+    if (excludePatterns?.some((pattern) => pattern.test(procedurePath))) return false;
+    return filter ? filter(meta, procedurePath) : true;
+  };
+}
@@ -1,44 +1,29 @@
-import type { OpenAPIV3_1 } from 'openapi-types';
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
 import type { AnyRouter } from '@trpc/server';
 import type { OpenApiMeta, GenerateOpenApiDocumentOptions, HttpMethod } from './types';
-import { getSchemaFromParser, getFullSchemaFromParser, isTypiaParser } from './procedure';
-
-/**
- * Internal procedure definition structure from tRPC
- */
-interface ProcedureDef {
-  _def: {
-    type: 'query' | 'mutation' | 'subscription';
-    meta?: OpenApiMeta;
-    inputs?: unknown[];
-    output?: unknown;
-  };
-}
-
-/**
- * Internal router definition structure from tRPC
- */
-interface RouterDef {
-  _def: {
-    procedures: Record<string, unknown>;
-    router: boolean;
-  };
-}
-
-/**
- * Check if a value is a nested router
- */
-function isRouter(value: unknown): value is RouterDef {
-  return (
-    typeof value === 'object' &&
-    value !== null &&
-    '_def' in value &&
-    typeof (value as RouterDef)._def === 'object' &&
-    (value as RouterDef)._def !== null &&
-    'router' in (value as RouterDef)._def &&
-    (value as RouterDef)._def.router === true
-  );
-}
+import { getSchemaFromParser } from './procedure';
+import type { InputObjectSchema } from './schema';
+import { getComponentsFromParser, getInputObjectSchema, resolveSchema } from './schema';
+import { createComponentRegistry, getComponentPrefix, pruneComponentSchemas, rewriteInputObject } from './components';
+import { createOperationFilter } from './filter';
+import { getQuerySerialization } from './query';
+import type { MappedParameter, MappedParameters } from './parameters';
+import { getMappedParameters, getMappedPropertyNames } from './parameters';
+import {
+  ERROR_SCHEMA_NAME,
+  VALIDATION_ERROR_SCHEMA_NAME,
+  defaultErrorSchema,
+  getStatusFromErrorCode,
+  validationErrorSchema,
+} from './errors';
+import { SSE_CONTENT_TYPE } from './sse';
+import { isMultipartContentType, toMultipartSchema } from './multipart';
+import { isJsonContentType } from './response';
+import { toMediaTypeList } from './content-type';
+import { getOperationId, validateOpenApiRouter } from './validate';
+import { convertToOpenApi30 } from './openapi30';
+import { getSecurityRequirements, hasOwnSecurity } from './security';
+import { collectProcedures } from './router';
 
 /**
  * Parse OpenAPI path template to extract parameter names
@@ -66,27 +51,40 @@ function getHttpMethod(procedureType: string, explicitMethod?: HttpMethod): Http
  */
 function buildRequestBody(
   inputSchema: object | undefined,
-  pathParams: string[],
+  inputObject: InputObjectSchema | undefined,
+  excludedParams: string[],
   contentType: string = 'application/json'
 ): OpenAPIV3_1.RequestBodyObject | undefined {
   if (!inputSchema) return undefined;
 
-  // For GET requests with path params only, no body needed
-  // But if there's a schema beyond path params, include it
   const schemaObj = inputSchema as OpenAPIV3_1.SchemaObject;
 
-  if (schemaObj.type === 'object' && schemaObj.properties) {
-    // Remove path parameters from request body
-    const bodyProperties = { ...schemaObj.properties };
-    const bodyRequired = (schemaObj.required || []).filter(
-      (r: string) => !pathParams.includes(r)
-    );
+  if (inputObject && Object.keys(inputObject.properties).length > 0) {
+    // Multipart bodies are always inlined so file properties can become binary strings
+    const isMultipart = isMultipartContentType(contentType);
 
-    for (const param of pathParams) {
+    // Keep the $ref when no parameter has to be removed from the body
+    if (!isMultipart && !excludedParams.some((param) => param in inputObject.properties)) {
+      return {
+        required: true,
+        content: {
+          [contentType]: { schema: schemaObj },
+        },
+      };
+    }
+
+    // Remove path, header and cookie parameters from request body
+    const objectSchema = resolveSchema(inputSchema, inputObject.components) as OpenAPIV3_1.SchemaObject;
+    const bodyProperties = (
+      isMultipart ? toMultipartSchema(inputObject.properties, inputObject.components) : { ...inputObject.properties }
+    ) as Record<string, OpenAPIV3_1.SchemaObject>;
+    const bodyRequired = inputObject.required.filter((r: string) => !excludedParams.includes(r));
+
+    for (const param of excludedParams) {
       delete bodyProperties[param];
     }
 
-    // If no properties left after removing path params, no body needed
+    // If no properties left after removing parameters, no body needed
     if (Object.keys(bodyProperties).length === 0) {
       return undefined;
     }
@@ -96,7 +94,7 @@ function buildRequestBody(
       content: {
         [contentType]: {
           schema: {
-            ...schemaObj,
+            ...objectSchema,
             properties: bodyProperties,
             required: bodyRequired.length > 0 ? bodyRequired : undefined,
           },
@@ -118,14 +116,11 @@ function buildRequestBody(
  */
 function buildPathParameters(
   pathParams: string[],
-  inputSchema: object | undefined
+  inputObject: InputObjectSchema | undefined
 ): OpenAPIV3_1.ParameterObject[] {
-  const schemaObj = inputSchema as Record<string, unknown> | undefined;
-  const properties = schemaObj?.properties as Record<string, unknown> | undefined;
-
   return pathParams.map((param) => {
     // Try to get schema from input
-    const paramSchema = properties?.[param];
+    const paramSchema = inputObject?.properties[param];
 
     return {
       name: param,
@@ -136,143 +131,178 @@ function buildPathParameters(
   });
 }
 
+/**
+ * Build header and cookie parameters for OpenAPI
+ */
+function buildMappedParameters(
+  mapped: MappedParameters,
+  inputObject: InputObjectSchema | undefined
+): OpenAPIV3_1.ParameterObject[] {
+  const toParameter = (location: 'header' | 'cookie') =>
+    ({ property, name }: MappedParameter) =>
+      ({
+        name,
+        in: location,
+        required: inputObject?.required.includes(property) ?? false,
+        schema: inputObject?.properties[property] || { type: 'string' },
+      }) as OpenAPIV3_1.ParameterObject;
+
+  return [
+    ...mapped.headers.map(toParameter('header')),
+    ...mapped.cookies.map(toParameter('cookie')),
+  ];
+}
+
 /**
  * Build query parameters for GET requests
  */
 function buildQueryParameters(
-  inputSchema: object | undefined,
-  pathParams: string[],
-  method: HttpMethod
+  inputObject: InputObjectSchema | undefined,
+  excludedParams: string[],
+  method: HttpMethod,
+  querySerialization?: NonNullable<OpenApiMeta['openapi']>['querySerialization']
 ): OpenAPIV3_1.ParameterObject[] {
-  if (method !== 'GET' || !inputSchema) return [];
-
-  const schemaObj = inputSchema as Record<string, unknown>;
-  if (schemaObj.type !== 'object' || !schemaObj.properties) return [];
+  if (method !== 'GET' || !inputObject) return [];
 
   const params: OpenAPIV3_1.ParameterObject[] = [];
-  const required = (schemaObj.required as string[]) || [];
-  const properties = schemaObj.properties as Record<string, unknown>;
+  const { properties, required, components } = inputObject;
 
   for (const [name, propSchema] of Object.entries(properties)) {
-    // Skip path parameters
-    if (pathParams.includes(name)) continue;
+    // Skip path, header and cookie parameters
+    if (excludedParams.includes(name)) continue;
 
-    params.push({
+    const param = {
       name,
       in: 'query',
       required: required.includes(name),
       schema: propSchema,
-    } as OpenAPIV3_1.ParameterObject);
+    } as OpenAPIV3_1.ParameterObject;
+
+    // Document how arrays and objects are serialized, matching the handler
+    const serialization = getQuerySerialization(name, propSchema, components, querySerialization);
+    if (serialization) {
+      param.style = serialization.style;
+      param.explode = serialization.explode;
+    }
+
+    params.push(param);
   }
 
   return params;
 }
 
+/**
+ * Reference to a component schema
+ */
+function componentRef(name: string): OpenAPIV3_1.ReferenceObject {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * Turn a tRPC error code into a readable description (NOT_FOUND -> Not found)
+ */
+function describeErrorCode(code: string): string {
+  const words = code.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
 /**
  * Build response schema for OpenAPI
  */
 function buildResponse(
   outputSchema: object | undefined,
-  responseContentType: string = 'application/json'
+  responseContentTypes: string[] = ['application/json'],
+  hasInput: boolean = false,
+  errors: string[] = [],
+  successStatus: number = 200,
+  responseHeaders?: Record<string, OpenAPIV3_1.HeaderObject>
 ): OpenAPIV3_1.ResponsesObject {
   const successResponse: OpenAPIV3_1.ResponseObject = {
     description: 'Successful response',
   };
 
-  if (outputSchema) {
-    successResponse.content = {
-      [responseContentType]: {
-        schema: outputSchema as OpenAPIV3_1.SchemaObject,
-      },
-    };
+  if (responseHeaders && Object.keys(responseHeaders).length > 0) {
+    successResponse.headers = responseHeaders;
   }
 
-  return {
-    '200': successResponse,
-    default: {
-      description: 'Error response',
-      content: {
-        'application/json': {
-          schema: {
-            type: 'object',
-            properties: {
-              message: { type: 'string' },
-              code: { type: 'string' },
-              data: {
-                type: 'object',
-                additionalProperties: true,
-              },
-            },
-            required: ['message', 'code'],
-          },
-        },
-      },
-    },
-  };
-}
-
-/**
- * Recursively collect all procedures from a router
- */
-function collectProcedures(
-  router: unknown,
-  prefix: string = ''
-): Map<string, { path: string; procedure: ProcedureDef }> {
-  const procedures = new Map<string, { path: string; procedure: ProcedureDef }>();
-  const routerDef = router as RouterDef;
-
-  if (!routerDef._def?.procedures) return procedures;
-
-  for (const [name, value] of Object.entries(routerDef._def.procedures)) {
-    const fullPath = prefix ? `${prefix}.${name}` : name;
-
-    // Check if it's a nested router
-    if (isRouter(value)) {
-      const nestedProcedures = collectProcedures(value, fullPath);
-      for (const [k, v] of nestedProcedures) {
-        procedures.set(k, v);
+  // 204 No Content never carries a body
+  if (successStatus !== 204) {
+    const content: Record<string, OpenAPIV3_1.MediaTypeObject> = {};
+
+    for (const responseContentType of responseContentTypes) {
+      if (outputSchema) {
+        content[responseContentType] = { schema: outputSchema as OpenAPIV3_1.SchemaObject };
+      } else if (!isJsonContentType(responseContentType)) {
+        // Untyped text or file downloads
+        content[responseContentType] = {
+          schema: responseContentType.startsWith('text/')
+            ? { type: 'string' }
+            : { type: 'string', format: 'binary' },
+        };
       }
-    } else {
-      procedures.set(fullPath, { path: fullPath, procedure: value as ProcedureDef });
+    }
+
+    if (Object.keys(content).length > 0) {
+      successResponse.content = content;
     }
   }
 
-  return procedures;
-}
+  const responses: OpenAPIV3_1.ResponsesObject = {
+    [String(successStatus)]: successResponse,
+  };
 
-/**
- * Collect all component schemas from parsers
- */
-function collectComponentSchemas(
-  procedures: Map<string, { path: string; procedure: ProcedureDef }>
-): Record<string, OpenAPIV3_1.SchemaObject> {
-  const components: Record<string, OpenAPIV3_1.SchemaObject> = {};
+  if (hasInput) {
+    responses['400'] = {
+      description: 'Input validation failed',
+      content: {
+        'application/json': {
+          schema: componentRef(VALIDATION_ERROR_SCHEMA_NAME),
+        },
+      },
+    };
+  }
 
-  for (const { procedure } of procedures.values()) {
-    const def = procedure._def;
+  // Explicit error responses, using the same code -> status mapping as the handler
+  for (const code of errors) {
+    const status = String(getStatusFromErrorCode(code));
+    const existing = responses[status] as OpenAPIV3_1.ResponseObject | undefined;
 
-    // Collect from inputs
-    if (def.inputs?.[0] && isTypiaParser(def.inputs[0])) {
-      const fullSchema = getFullSchemaFromParser(def.inputs[0]);
-      // Typia outputs components as { schemas: { TypeName: {...} } }
-      const typiaComponents = fullSchema?.components as { schemas?: Record<string, unknown> } | undefined;
-      if (typiaComponents?.schemas) {
-        Object.assign(components, typiaComponents.schemas);
-      }
+    if (!existing) {
+      responses[status] = {
+        description: describeErrorCode(code),
+        content: {
+          'application/json': { schema: componentRef(ERROR_SCHEMA_NAME) },
+        },
+      };
+      continue;
     }
 
-    // Collect from output
-    if (def.output && isTypiaParser(def.output)) {
-      const fullSchema = getFullSchemaFromParser(def.output);
-      // Typia outputs components as { schemas: { TypeName: {...} } }
-      const typiaComponents = fullSchema?.components as { schemas?: Record<string, unknown> } | undefined;
-      if (typiaComponents?.schemas) {
-        Object.assign(components, typiaComponents.schemas);
-      }
-    }
+    // Several codes on one status (e.g. validation + BAD_REQUEST)
+    const schema = existing.content?.['application/json']?.schema;
+    const errorRef = componentRef(ERROR_SCHEMA_NAME);
+    const alternatives = (schema as OpenAPIV3_1.SchemaObject | undefined)?.oneOf || (schema ? [schema] : []);
+    const alreadyListed = alternatives.some(
+      (alt) => (alt as OpenAPIV3_1.ReferenceObject).$ref === errorRef.$ref
+    );
+
+    responses[status] = {
+      description: `${existing.description}, ${describeErrorCode(code).toLowerCase()}`,
+      content: {
+        'application/json': {
+          schema: alreadyListed ? schema : { oneOf: [...alternatives, errorRef] },
+        },
+      },
+    };
   }
 
-  return components;
+  responses.default = {
+    description: 'Error response',
+    content: {
+      'application/json': { schema: componentRef(ERROR_SCHEMA_NAME) },
+    },
+  };
+
+  return responses;
 }
 
 /**
@@ -287,12 +317,27 @@ function collectComponentSchemas(
  *   version: '1.0.0',
  *   baseUrl: 'https://api.example.com',
  * });
+ *
+ * // OpenAPI 3.0.3 for older tooling
+ * const legacyDoc = generateOpenApiDocument(appRouter, { ...options, openapiVersion: '3.0' });
  * ```
  */
+export function generateOpenApiDocument(
+  router: AnyRouter,
+  options: GenerateOpenApiDocumentOptions & { openapiVersion: '3.0' }
+): OpenAPIV3.Document;
+export function generateOpenApiDocument(
+  router: AnyRouter,
+  options: GenerateOpenApiDocumentOptions & { openapiVersion?: '3.1' }
+): OpenAPIV3_1.Document;
 export function generateOpenApiDocument(
   router: AnyRouter,
   options: GenerateOpenApiDocumentOptions
-): OpenAPIV3_1.Document {
+): OpenAPIV3_1.Document | OpenAPIV3.Document;
+export function generateOpenApiDocument(
+  router: AnyRouter,
+  options: GenerateOpenApiDocumentOptions
+): OpenAPIV3_1.Document | OpenAPIV3.Document {
   const {
     title,
     version,
@@ -302,55 +347,120 @@ export function generateOpenApiDocument(
     securitySchemes,
     security,
     tags,
+    errorResponseSchema,
+    strict,
+    componentCollisions,
+    componentPrefixes,
+    openapiVersion,
+    onConversionWarning,
   } = options;
 
+  if (strict) {
+    validateOpenApiRouter(router);
+  }
+
   const paths: OpenAPIV3_1.PathsObject = {};
   const procedures = collectProcedures(router);
-  const componentSchemas = collectComponentSchemas(procedures);
-
-  for (const [procedurePath, { procedure }] of procedures) {
+  // Built-in error schemas keep their names; user types named alike are renamed
+  const components = createComponentRegistry(componentCollisions, [
+    ERROR_SCHEMA_NAME,
+    VALIDATION_ERROR_SCHEMA_NAME,
+  ]);
+  const componentSchemas = components.schemas as Record<string, OpenAPIV3_1.SchemaObject>;
+  const isIncluded = createOperationFilter(options);
+  const usedTags = new Set<string>();
+  let hasOperations = false;
+  let hasOmittedOperations = false;
+
+  for (const { procedurePath, procedure } of procedures) {
     const def = procedure._def;
     const meta = def.meta as OpenApiMeta | undefined;
 
     // Skip procedures without OpenAPI metadata
     if (!meta?.openapi) continue;
 
-    const { method, path, tags: opTags, summary, description: opDesc, deprecated, contentType, responseContentType, protect } = meta.openapi;
+    // Leave out operations not selected for this document
+    if (!isIncluded(procedurePath, meta)) {
+      hasOmittedOperations = true;
+      continue;
+    }
+
+    const { method, path, tags: opTags, summary, description: opDesc, deprecated, contentType, responseContentType, responseHeaders, responseFilename, successStatus, protect, querySerialization, errors } = meta.openapi;
     const { params: pathParams, normalizedPath } = parsePath(path);
+    const mappedParams = getMappedParameters(meta);
+    const excludedParams = [...pathParams, ...getMappedPropertyNames(mappedParams)];
     const httpMethod = getHttpMethod(def.type, method);
 
     // Extract schemas from Typia parsers
     const inputParser = def.inputs?.[0];
     const outputParser = def.output;
 
-    const inputSchema = inputParser ? getSchemaFromParser(inputParser) : undefined;
-    const outputSchema = outputParser ? getSchemaFromParser(outputParser) : undefined;
+    // Register each parser's components, pointing its schemas at the merged names
+    const componentPrefix = getComponentPrefix(procedurePath, componentPrefixes);
+    const rewriteInput = components.add(getComponentsFromParser(inputParser), componentPrefix);
+    const rewriteOutput = components.add(getComponentsFromParser(outputParser), componentPrefix);
+
+    const rawInputSchema = inputParser ? getSchemaFromParser(inputParser) : undefined;
+    const rawInputObject = inputParser ? getInputObjectSchema(inputParser) : undefined;
+    const rawOutputSchema = outputParser ? getSchemaFromParser(outputParser) : undefined;
+    const inputSchema = rawInputSchema && (rewriteInput(rawInputSchema) as object);
+    const inputObject = rawInputObject && rewriteInputObject(rawInputObject, rewriteInput, components);
+    const outputSchema = rawOutputSchema && (rewriteOutput(rawOutputSchema) as object);
+    const isSubscription = def.type === 'subscription';
 
     // Build operation
     const operation: OpenAPIV3_1.OperationObject = {
-      operationId: procedurePath.replace(/\./g, '_'),
+      operationId: getOperationId(procedurePath),
       tags: opTags,
       summary,
       description: opDesc,
       deprecated,
       parameters: [
-        ...buildPathParameters(pathParams, inputSchema),
-        ...buildQueryParameters(inputSchema, pathParams, httpMethod),
+        ...buildPathParameters(pathParams, inputObject),
+        ...buildMappedParameters(mappedParams, inputObject),
+        ...buildQueryParameters(inputObject, excludedParams, httpMethod, querySerialization),
       ],
-      responses: buildResponse(outputSchema, responseContentType),
+      responses: buildResponse(
+        outputSchema,
+        // Subscriptions stream their events; the schema describes one event payload
+        isSubscription ? [SSE_CONTENT_TYPE] : toMediaTypeList(responseContentType, 'application/json'),
+        !!inputParser,
+        errors,
+        isSubscription ? 200 : successStatus,
+        responseFilename
+          ? {
+              'Content-Disposition': {
+                description: 'Download file name',
+                schema: { type: 'string' },
+              },
+              ...responseHeaders,
+            }
+          : responseHeaders
+      ),
     };
 
-    // Add request body for non-GET methods
+    if (isSubscription) {
+      (operation.responses!['200'] as OpenAPIV3_1.ResponseObject).description =
+        'Server-sent event stream; each `data:` line holds one JSON-encoded event';
+    }
+
+    // Add request body for non-GET methods, one entry per accepted media type
     if (httpMethod !== 'GET') {
-      const requestBody = buildRequestBody(inputSchema, pathParams, contentType);
-      if (requestBody) {
-        operation.requestBody = requestBody;
+      const requestBodies = toMediaTypeList(contentType, 'application/json')
+        .map((type) => buildRequestBody(inputSchema, inputObject, excludedParams, type))
+        .filter((body): body is OpenAPIV3_1.RequestBodyObject => body !== undefined);
+
+      if (requestBodies.length > 0) {
+        operation.requestBody = {
+          required: true,
+          content: Object.assign({}, ...requestBodies.map((body) => body.content)),
+        };
       }
     }
 
-    // Add security if protected
-    if (protect && security) {
-      operation.security = security;
+    // Operation-level security: explicit requirements, or the default when protected
+    if (hasOwnSecurity(meta.openapi) || (protect && security)) {
+      operation.security = getSecurityRequirements(meta.openapi, security);
     }
 
     // Remove empty parameters array
@@ -363,8 +473,28 @@ export function generateOpenApiDocument(
       paths[normalizedPath] = {};
     }
     (paths[normalizedPath] as Record<string, OpenAPIV3_1.OperationObject>)[httpMethod.toLowerCase()] = operation;
+
+    hasOperations = true;
+    opTags?.forEach((tag) => usedTags.add(tag));
+
+    // Register the validation error shape once it is referenced
+    if (inputParser) {
+      componentSchemas[VALIDATION_ERROR_SCHEMA_NAME] = validationErrorSchema;
+    }
+  }
+
+  // Every operation references the shared error schema
+  if (hasOperations) {
+    componentSchemas[ERROR_SCHEMA_NAME] = errorResponseSchema || defaultErrorSchema;
   }
 
+  // Filtered documents keep only the components and tags their operations use,
+  // so types of omitted (e.g. internal) operations do not leak
+  if (hasOmittedOperations) {
+    pruneComponentSchemas(components.schemas, paths);
+  }
+  const documentTags = hasOmittedOperations ? tags?.filter((tag) => usedTags.has(tag.name)) : tags;
+
   // Build document
   const document: OpenAPIV3_1.Document = {
     openapi: '3.1.0',
@@ -394,8 +524,12 @@ export function generateOpenApiDocument(
   }
 
   // Add tags
-  if (tags) {
-    document.tags = tags;
+  if (documentTags) {
+    document.tags = documentTags;
+  }
+
+  if (openapiVersion === '3.0') {
+    return convertToOpenApi30(document, onConversionWarning);
   }
 
   return document;
@@ -410,7 +544,7 @@ export function getOpenApiProcedures(
   const result = new Map<string, { method: HttpMethod; path: string; procedurePath: string }>();
   const procedures = collectProcedures(router);
 
-  for (const [procedurePath, { procedure }] of procedures) {
+  for (const { procedurePath, procedure } of procedures) {
     const meta = procedure._def.meta as OpenApiMeta | undefined;
     if (!meta?.openapi) continue;
 
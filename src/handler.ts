@@ -1,42 +1,27 @@
-import type { AnyRouter, TRPCError } from '@trpc/server';
-import type { OpenApiMeta, HttpMethod } from './types';
-
-/**
- * Internal procedure definition structure from tRPC
- */
-interface ProcedureDef {
-  _def: {
-    type: 'query' | 'mutation' | 'subscription';
-    meta?: OpenApiMeta;
-    inputs?: unknown[];
-    output?: unknown;
-  };
-}
-
-/**
- * Internal router definition structure from tRPC
- */
-interface RouterDef {
-  _def: {
-    procedures: Record<string, unknown>;
-    router: boolean;
-  };
-}
-
-/**
- * Check if a value is a nested router
- */
-function isRouter(value: unknown): value is RouterDef {
-  return (
-    typeof value === 'object' &&
-    value !== null &&
-    '_def' in value &&
-    typeof (value as RouterDef)._def === 'object' &&
-    (value as RouterDef)._def !== null &&
-    'router' in (value as RouterDef)._def &&
-    (value as RouterDef)._def.router === true
-  );
-}
+import type { AnyRouter } from '@trpc/server';
+import { TRPCError } from '@trpc/server';
+import type { OpenApiMeta, HttpMethod, ProcedureType, OpenApiSecurityRequirement } from './types';
+import type { InputObjectSchema } from './schema';
+import { getInputObjectSchema } from './schema';
+import type { RawParameter } from './coerce';
+import { coerceParameter } from './coerce';
+import { parseQueryString, deserializeQuery } from './query';
+import { getMappedParameters, parseCookies } from './parameters';
+import type { RouteNode } from './route-tree';
+import { createRouteTree, insertRoute, findRoute, findRouteMethods } from './route-tree';
+import type { CorsOptions } from './cors';
+import { getCorsHeaders, isPreflightRequest } from './cors';
+import type { ValidationErrorBody } from './errors';
+import { TypiaValidationError, getValidationIssues, getStatusFromErrorCode } from './errors';
+import { validateOpenApiRouter } from './validate';
+import { isMultipartContentType, parseMultipart, isFileArraySchema } from './multipart';
+import { getResultBody } from './response';
+import { getMediaType, matchesMediaType, negotiateMediaType, toMediaTypeList } from './content-type';
+import type { SseOptions } from './sse';
+import { SSE_CONTENT_TYPE, createEventStream } from './sse';
+import { getSecurityRequirements } from './security';
+import type { ProcedureDef } from './router';
+import { collectOpenApiProcedures } from './router';
 
 /**
  * Incoming HTTP request abstraction
@@ -48,10 +33,14 @@ export interface OpenApiRequest {
   body?: unknown;
   query?: Record<string, string | string[] | undefined>;
   params?: Record<string, string>;
+  /** Aborted when the client disconnects (ends subscriptions) */
+  signal?: AbortSignal;
 }
 
 /**
- * HTTP response abstraction
+ * HTTP response abstraction.
+ * Strings and bytes are sent as-is, async iterables of strings/bytes are streamed
+ * (SSE, NDJSON, file streams), and any other value is serialized as JSON by the adapter.
  */
 export interface OpenApiResponse {
   status: number;
@@ -64,7 +53,7 @@ export interface OpenApiResponse {
  */
 export type CreateContextFn<TContext> = (opts: {
   req: OpenApiRequest;
-  info: { path: string; type: 'query' | 'mutation' };
+  info: { path: string; type: ProcedureType };
 }) => Promise<TContext> | TContext;
 
 /**
@@ -79,31 +68,76 @@ export interface CreateOpenApiHandlerOptions<TContext> {
     req: OpenApiRequest;
     ctx: TContext | undefined;
   }) => void;
+  /**
+   * Adjust status and headers of each response. Resolvers can pass values
+   * through the context (e.g. `ctx.resHeaders.Location = ...`).
+   */
+  responseMeta?: ResponseMetaFn<TContext>;
+  /** CORS handling (preflight included), applied to every adapter */
+  cors?: CorsOptions;
+  /** Validate the router's OpenAPI metadata at creation (see `validateOpenApiRouter`) */
+  strict?: boolean;
+  /** Server-Sent Events settings for subscriptions */
+  sse?: SseOptions;
+  /** Default security requirements (as given to `generateOpenApiDocument`) */
+  security?: OpenApiSecurityRequirement[];
+  /** Authorization of routes with security requirements, before their input is parsed */
+  authorize?: AuthorizeFn<TContext>;
 }
 
 /**
- * Route match result
+ * Authorization hook, called for each request to a route with security requirements
+ * once the context is created. Returning `false` answers 403; throw a TRPCError for
+ * other outcomes (e.g. `UNAUTHORIZED` for missing credentials, answered with 401).
  */
-interface RouteMatch {
+export type AuthorizeFn<TContext> = (opts: {
+  /** Alternatives (one must be met), each mapping scheme names to required scopes */
+  requirements: OpenApiSecurityRequirement[];
+  ctx: TContext;
+  path: string;
+  req: OpenApiRequest;
+}) => boolean | void | Promise<boolean | void>;
+
+/**
+ * A matched procedure call, as seen by the function running procedures
+ */
+export interface ProcedureCall<TContext> {
   procedurePath: string;
-  procedure: ProcedureDef;
-  params: Record<string, string>;
+  type: ProcedureType;
+  /** Input parsers of the procedure */
+  inputs: unknown[];
+  /** Output parser of the procedure */
+  output: unknown;
+  /** Input assembled from the request, not yet parsed */
+  input: unknown;
+  ctx: TContext;
+  req: OpenApiRequest;
 }
 
 /**
- * Parse path pattern and extract parameter positions
- * e.g., /users/{userId}/posts/{postId} -> { pattern: /^\/users\/([^/]+)\/posts\/([^/]+)$/, params: ['userId', 'postId'] }
+ * Runs a matched procedure and returns its result
  */
-function compilePathPattern(path: string): { regex: RegExp; params: string[] } {
-  const params: string[] = [];
-  const pattern = path.replace(/\{([^}]+)\}/g, (_, param) => {
-    params.push(param);
-    return '([^/]+)';
-  });
-  return {
-    regex: new RegExp(`^${pattern}$`),
-    params,
-  };
+export type CallProcedureFn<TContext> = (call: ProcedureCall<TContext>) => Promise<unknown>;
+
+/**
+ * Response meta hook type
+ */
+export type ResponseMetaFn<TContext> = (opts: {
+  data: unknown;
+  errors: Array<TRPCError | Error>;
+  ctx: TContext | undefined;
+  path: string;
+  req: OpenApiRequest;
+}) => { status?: number; headers?: Record<string, string> } | undefined;
+
+/**
+ * Route match result
+ */
+interface RouteMatch {
+  procedurePath: string;
+  procedure: ProcedureDef;
+  params: Record<string, string>;
+  inputSchema?: InputObjectSchema;
 }
 
 /**
@@ -111,105 +145,223 @@ function compilePathPattern(path: string): { regex: RegExp; params: string[] } {
  */
 interface RouteEntry {
   method: HttpMethod;
-  regex: RegExp;
-  params: string[];
+  /** Path template (e.g. /users/{id}) */
+  path: string;
   procedurePath: string;
   procedure: ProcedureDef;
+  /** Resolved input object schema, used to coerce query and path values */
+  inputSchema?: InputObjectSchema;
+}
+
+/**
+ * Route table: declared routes plus the prefix tree used for matching
+ */
+interface RouteTable {
+  routes: RouteEntry[];
+  tree: RouteNode<RouteEntry>;
 }
 
 /**
- * Build route table from router
+ * Build route table from router.
+ * Throws a RouteConflictError when two procedures claim the same method and path.
  */
-function buildRouteTable(router: AnyRouter): RouteEntry[] {
+function buildRouteTable(router: AnyRouter): RouteTable {
   const routes: RouteEntry[] = [];
+  const tree = createRouteTree<RouteEntry>();
+
+  for (const { procedurePath, procedure } of collectOpenApiProcedures(router)) {
+    const { method, path } = procedure._def.meta!.openapi!;
+    const httpMethod = method || (procedure._def.type === 'mutation' ? 'POST' : 'GET');
+    const entry: RouteEntry = {
+      method: httpMethod,
+      path,
+      procedurePath,
+      procedure,
+      inputSchema: procedure._def.inputs?.[0] ? getInputObjectSchema(procedure._def.inputs[0]) : undefined,
+    };
 
-  function collectRoutes(routerDef: unknown, prefix: string = '') {
-    const def = routerDef as RouterDef;
-    if (!def._def?.procedures) return;
-
-    for (const [name, value] of Object.entries(def._def.procedures)) {
-      const fullPath = prefix ? `${prefix}.${name}` : name;
-
-      // Check if it's a nested router
-      if (isRouter(value)) {
-        collectRoutes(value, fullPath);
-      } else {
-        const proc = value as ProcedureDef;
-        const meta = proc._def.meta as OpenApiMeta | undefined;
-
-        if (meta?.openapi) {
-          const { method, path } = meta.openapi;
-          const httpMethod = method || (proc._def.type === 'mutation' ? 'POST' : 'GET');
-          const { regex, params } = compilePathPattern(path);
-
-          routes.push({
-            method: httpMethod,
-            regex,
-            params,
-            procedurePath: fullPath,
-            procedure: proc,
-          });
-        }
-      }
-    }
+    insertRoute(tree, httpMethod, path, entry, procedurePath);
+    routes.push(entry);
   }
 
-  collectRoutes(router);
-  return routes;
+  return { routes, tree };
+}
+
+/**
+ * Methods answered for a path: registered ones, HEAD for GET routes, and OPTIONS.
+ * Returns undefined when no route is registered for the path.
+ */
+function getAllowedMethods(table: RouteTable, pathname: string): string[] | undefined {
+  const methods = findRouteMethods(table.tree, pathname);
+  if (methods.length === 0) return undefined;
+
+  if (methods.includes('GET')) methods.push('HEAD');
+  methods.push('OPTIONS');
+  return methods;
+}
+
+/**
+ * Decode a path parameter, keeping malformed escapes as-is
+ */
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
 }
 
 /**
  * Match incoming request to a route
  */
 function matchRoute(
-  routes: RouteEntry[],
+  table: RouteTable,
   method: string,
   pathname: string
 ): RouteMatch | null {
-  const upperMethod = method.toUpperCase() as HttpMethod;
-
-  for (const route of routes) {
-    if (route.method !== upperMethod) continue;
+  const upperMethod = method.toUpperCase();
+  const found = findRoute(table.tree, pathname, upperMethod);
+  if (!found) return null;
 
-    const match = route.regex.exec(pathname);
-    if (match) {
-      const params: Record<string, string> = {};
-      route.params.forEach((name, index) => {
-        params[name] = decodeURIComponent(match[index + 1]);
-      });
+  const leaf = found.node.methods.get(upperMethod)!;
 
-      return {
-        procedurePath: route.procedurePath,
-        procedure: route.procedure,
-        params,
-      };
-    }
-  }
+  const params: Record<string, string> = {};
+  leaf.params.forEach((name, index) => {
+    params[name] = decodeParam(found.values[index]);
+  });
 
-  return null;
+  return {
+    procedurePath: leaf.value.procedurePath,
+    procedure: leaf.value.procedure,
+    params,
+    inputSchema: leaf.value.inputSchema,
+  };
 }
 
 /**
  * Parse URL to extract pathname and query
  */
-function parseUrl(url: string): { pathname: string; query: Record<string, string> } {
+function parseUrl(url: string): { pathname: string; query: Record<string, string | string[]> } {
   const queryIndex = url.indexOf('?');
   if (queryIndex === -1) {
     return { pathname: url, query: {} };
   }
 
   const pathname = url.slice(0, queryIndex);
-  const queryString = url.slice(queryIndex + 1);
-  const query: Record<string, string> = {};
+  const query = parseQueryString(url.slice(queryIndex + 1));
+
+  return { pathname, query };
+}
+
+/**
+ * Get the pathname of a URL used for route matching
+ */
+function getPathname(url: string): string {
+  const { pathname } = parseUrl(url);
+  // Normalize trailing slash (e.g. /business-context/ -> /business-context)
+  if (pathname.length > 1 && pathname.endsWith('/')) {
+    return pathname.slice(0, -1);
+  }
+  return pathname;
+}
 
-  for (const pair of queryString.split('&')) {
-    const [key, value] = pair.split('=');
-    if (key) {
-      query[decodeURIComponent(key)] = value ? decodeURIComponent(value) : '';
+/**
+ * Coerce raw query/path strings into the types declared by the input schema.
+ * Throws BAD_REQUEST naming the parameter when a value cannot be converted.
+ */
+function coerceParams(
+  values: Record<string, RawParameter | undefined>,
+  inputSchema: InputObjectSchema | undefined
+): Record<string, unknown> {
+  // No prototype while filling, so a `__proto__` parameter stays an ordinary key
+  const result: Record<string, unknown> = Object.create(null);
+
+  for (const [name, raw] of Object.entries(values)) {
+    if (raw === undefined) continue;
+
+    const propSchema =
+      inputSchema && Object.prototype.hasOwnProperty.call(inputSchema.properties, name)
+        ? inputSchema.properties[name]
+        : undefined;
+    if (!inputSchema || !propSchema) {
+      result[name] = raw;
+      continue;
     }
+
+    const coerced = coerceParameter(raw, propSchema, inputSchema.components);
+    if (!coerced.success) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `Invalid value for parameter "${name}": expected ${coerced.expected}`,
+        cause: new TypiaValidationError([
+          { path: `$input.${name}`, expected: coerced.expected, value: raw },
+        ]),
+      });
+    }
+    result[name] = coerced.value;
   }
 
-  return { pathname, query };
+  return { ...result };
+}
+
+/**
+ * Read the header and cookie parameters declared in meta
+ */
+function readMappedParams(
+  req: OpenApiRequest,
+  meta: OpenApiMeta | undefined
+): Record<string, string | string[] | undefined> {
+  const { headers, cookies } = getMappedParameters(meta);
+  const values: Record<string, string | string[] | undefined> = {};
+
+  for (const { property, name } of headers) {
+    values[property] = req.headers[name.toLowerCase()];
+  }
+
+  if (cookies.length > 0) {
+    const jar = parseCookies(req.headers.cookie);
+    for (const { property, name } of cookies) {
+      values[property] = jar[name];
+    }
+  }
+
+  return values;
+}
+
+const FORM_CONTENT_TYPE = 'application/x-www-form-urlencoded';
+
+/**
+ * Turn a buffered multipart body into input properties.
+ * Text fields are coerced like query parameters; files stay file handles,
+ * as a list when the property is declared as an array.
+ */
+function readMultipartInput(
+  req: OpenApiRequest,
+  body: Uint8Array,
+  inputSchema: InputObjectSchema | undefined,
+  meta: OpenApiMeta | undefined
+): Record<string, unknown> {
+  const contentType = String(req.headers['content-type']);
+  const { fields, files } = parseMultipart(body, contentType, meta?.openapi?.upload);
+
+  const input = coerceParams(
+    Object.fromEntries(
+      Object.entries(fields).map(([name, values]) => [name, values.length === 1 ? values[0] : values])
+    ),
+    inputSchema
+  );
+
+  const fileInput: Record<string, unknown> = Object.create(null);
+  for (const [name, handles] of Object.entries(files)) {
+    const propSchema =
+      inputSchema && Object.prototype.hasOwnProperty.call(inputSchema.properties, name)
+        ? inputSchema.properties[name]
+        : undefined;
+    fileInput[name] =
+      propSchema && isFileArraySchema(propSchema, inputSchema!.components) ? handles : handles[0];
+  }
+
+  return { ...input, ...fileInput };
 }
 
 /**
@@ -217,16 +369,51 @@ function parseUrl(url: string): { pathname: string; query: Record<string, string
  */
 function buildInput(
   req: OpenApiRequest,
-  routeParams: Record<string, string>
+  routeParams: Record<string, string>,
+  inputSchema?: InputObjectSchema,
+  meta?: OpenApiMeta
 ): unknown {
-  const { pathname, query } = parseUrl(req.url);
+  const { query } = parseUrl(req.url);
+  const mappedParams = readMappedParams(req, meta);
+
+  // For GET (and HEAD) requests, combine path params and query params
+  const method = req.method.toUpperCase();
+  if (method === 'GET' || method === 'HEAD') {
+    const queryInput = deserializeQuery(
+      { ...query, ...req.query },
+      inputSchema,
+      meta?.openapi?.querySerialization
+    );
+    return coerceParams(
+      {
+        ...queryInput,
+        ...mappedParams,
+        ...routeParams,
+      },
+      inputSchema
+    );
+  }
+
+  const paramInput = coerceParams({ ...mappedParams, ...routeParams }, inputSchema);
+
+  // Multipart bodies arrive unparsed from the adapters
+  if (req.body instanceof Uint8Array && isMultipartContentType(String(req.headers['content-type']))) {
+    return {
+      ...readMultipartInput(req, req.body, inputSchema, meta),
+      ...paramInput,
+    };
+  }
 
-  // For GET requests, combine path params and query params
-  if (req.method.toUpperCase() === 'GET') {
+  // Form bodies are decoded and coerced like query strings
+  if (typeof req.body === 'string' && getMediaType(req.headers['content-type']) === FORM_CONTENT_TYPE) {
+    const formInput = deserializeQuery(
+      parseQueryString(req.body),
+      inputSchema,
+      meta?.openapi?.querySerialization
+    );
     return {
-      ...query,
-      ...req.query,
-      ...routeParams,
+      ...coerceParams(formInput, inputSchema),
+      ...paramInput,
     };
   }
 
@@ -234,45 +421,75 @@ function buildInput(
   if (typeof req.body === 'object' && req.body !== null) {
     return {
       ...req.body,
-      ...routeParams,
+      ...paramInput,
     };
   }
 
-  // Just path params if no body
-  if (Object.keys(routeParams).length > 0) {
-    return routeParams;
+  // Just path, header and cookie params if no body
+  if (Object.keys(paramInput).length > 0) {
+    return paramInput;
   }
 
   return req.body;
 }
 
+/**
+ * Pass the `Last-Event-ID` header to a subscription as `input.lastEventId`
+ * (the convention of tRPC's own SSE transport)
+ */
+function withLastEventId(input: unknown, req: OpenApiRequest): unknown {
+  const header = req.headers['last-event-id'];
+  const lastEventId = Array.isArray(header) ? header[0] : header;
+  if (lastEventId === undefined) return input;
+
+  if (input === undefined) return { lastEventId };
+  if (typeof input === 'object' && input !== null && !Array.isArray(input)) {
+    return { ...input, lastEventId };
+  }
+  return input;
+}
+
+/**
+ * Check whether the client sent a request body. The framing headers decide when present;
+ * otherwise the value does, counting the `{}` body parsers set on bodiless requests as none.
+ */
+function hasRequestBody(req: OpenApiRequest): boolean {
+  const contentLength = req.headers['content-length'];
+  if (contentLength !== undefined) return Number(contentLength) > 0;
+  if (req.headers['transfer-encoding'] !== undefined) return true;
+
+  const { body } = req;
+  if (body === undefined || body === '') return false;
+  if (typeof body === 'object' && body !== null && Object.getPrototypeOf(body) === Object.prototype) {
+    return Object.keys(body).length > 0;
+  }
+  return true;
+}
+
 /**
  * Convert tRPC error to HTTP response
  */
 function errorToResponse(error: TRPCError | Error): OpenApiResponse {
+  // Input validation failures get a stable, field-level body
+  const issues = getValidationIssues(error);
+  if (issues) {
+    const body: ValidationErrorBody = {
+      message: error.message,
+      code: 'BAD_REQUEST',
+      issues,
+    };
+    return {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    };
+  }
+
   const trpcError = error as TRPCError;
   const code = trpcError.code || 'INTERNAL_SERVER_ERROR';
 
-  const statusMap: Record<string, number> = {
-    PARSE_ERROR: 400,
-    BAD_REQUEST: 400,
-    UNAUTHORIZED: 401,
-    FORBIDDEN: 403,
-    NOT_FOUND: 404,
-    METHOD_NOT_SUPPORTED: 405,
-    TIMEOUT: 408,
-    CONFLICT: 409,
-    PRECONDITION_FAILED: 412,
-    PAYLOAD_TOO_LARGE: 413,
-    UNPROCESSABLE_CONTENT: 422,
-    TOO_MANY_REQUESTS: 429,
-    CLIENT_CLOSED_REQUEST: 499,
-    INTERNAL_SERVER_ERROR: 500,
-    NOT_IMPLEMENTED: 501,
-  };
-
   return {
-    status: statusMap[code] || 500,
+    status: getStatusFromErrorCode(code),
     headers: { 'Content-Type': 'application/json' },
     body: {
       message: error.message,
@@ -301,21 +518,81 @@ function errorToResponse(error: TRPCError | Error): OpenApiResponse {
 export function createOpenApiHandler<TContext>(
   opts: CreateOpenApiHandlerOptions<TContext>
 ): (req: OpenApiRequest) => Promise<OpenApiResponse> {
-  const { router, createContext, onError } = opts;
-  const routes = buildRouteTable(router);
-
   // Get the caller function from the router
-  const caller = (router as { createCaller: (ctx: TContext) => Record<string, unknown> }).createCaller;
+  const caller = (
+    opts.router as {
+      createCaller: (ctx: TContext, opts?: { signal?: AbortSignal }) => Record<string, unknown>;
+    }
+  ).createCaller;
 
-  return async (req: OpenApiRequest): Promise<OpenApiResponse> => {
-    let { pathname } = parseUrl(req.url);
-    // Normalize trailing slash (e.g. /business-context/ -> /business-context)
-    if (pathname.length > 1 && pathname.endsWith('/')) {
-      pathname = pathname.slice(0, -1);
+  return createProcedureHandler(opts, async ({ procedurePath, input, ctx, req }) => {
+    const trpcCaller = caller(ctx, { signal: req.signal });
+
+    // Navigate to the procedure (handles nested routers)
+    let current: unknown = trpcCaller;
+    for (const part of procedurePath.split('.')) {
+      current = (current as Record<string, unknown>)[part];
     }
-    const match = matchRoute(routes, req.method, pathname);
+
+    return (current as (input: unknown) => Promise<unknown>)(input);
+  });
+}
+
+/**
+ * Create an OpenAPI HTTP handler around a function running the matched procedures.
+ * Routing, input building, content negotiation, SSE and error mapping are shared by
+ * the tRPC-backed handler and the mock handler.
+ */
+export function createProcedureHandler<TContext>(
+  opts: CreateOpenApiHandlerOptions<TContext>,
+  callProcedure: CallProcedureFn<TContext>
+): (req: OpenApiRequest) => Promise<OpenApiResponse> {
+  const { router, createContext, onError, responseMeta, cors, strict, sse, security, authorize } = opts;
+
+  if (strict) {
+    validateOpenApiRouter(router);
+  }
+
+  const table = buildRouteTable(router);
+
+  // Apply the responseMeta hook on top of a computed response
+  const withResponseMeta = (
+    response: OpenApiResponse,
+    meta: Parameters<ResponseMetaFn<TContext>>[0]
+  ): OpenApiResponse => {
+    const overrides = responseMeta?.(meta);
+    if (!overrides) return response;
+
+    const status = overrides.status ?? response.status;
+    const headers = { ...response.headers, ...overrides.headers };
+    if (status === 204) {
+      delete headers['Content-Type'];
+    }
+
+    return { status, headers, body: status === 204 ? undefined : response.body };
+  };
+
+  const handle = async (
+    req: OpenApiRequest,
+    pathname: string,
+    allowedMethods: string[] | undefined
+  ): Promise<OpenApiResponse> => {
+    const method = req.method.toUpperCase();
+    // HEAD runs the GET route and drops the body
+    const match = matchRoute(table, method === 'HEAD' ? 'GET' : method, pathname);
 
     if (!match) {
+      if (allowedMethods) {
+        return {
+          status: 405,
+          headers: { 'Content-Type': 'application/json', Allow: allowedMethods.join(', ') },
+          body: {
+            message: `Method ${req.method} not allowed for ${pathname}`,
+            code: 'METHOD_NOT_SUPPORTED',
+          },
+        };
+      }
+
       return {
         status: 404,
         headers: { 'Content-Type': 'application/json' },
@@ -326,8 +603,42 @@ export function createOpenApiHandler<TContext>(
       };
     }
 
-    const { procedurePath, procedure, params } = match;
-    const procedureType = procedure._def.type as 'query' | 'mutation';
+    const { procedurePath, procedure, params, inputSchema } = match;
+    const procedureType = procedure._def.type;
+    const openapi = procedure._def.meta?.openapi;
+
+    // Enforce the declared request media types when a body is sent
+    if (hasRequestBody(req) && method !== 'GET' && method !== 'HEAD') {
+      const accepted = toMediaTypeList(openapi?.contentType, 'application/json');
+      const mediaType = getMediaType(req.headers['content-type']);
+      if (!mediaType || !accepted.some((pattern) => matchesMediaType(mediaType, pattern))) {
+        return {
+          status: 415,
+          headers: { 'Content-Type': 'application/json', Accept: accepted.join(', ') },
+          body: {
+            message: `Unsupported Content-Type ${mediaType ?? '(none)'}, expected ${accepted.join(' or ')}`,
+            code: 'UNSUPPORTED_MEDIA_TYPE',
+          },
+        };
+      }
+    }
+
+    // Negotiate the response media type against Accept
+    const responseTypes =
+      procedureType === 'subscription'
+        ? [SSE_CONTENT_TYPE]
+        : toMediaTypeList(openapi?.responseContentType, 'application/json');
+    const responseType = negotiateMediaType(req.headers.accept, responseTypes);
+    if (!responseType) {
+      return {
+        status: 406,
+        headers: { 'Content-Type': 'application/json' },
+        body: {
+          message: `None of the available media types (${responseTypes.join(', ')}) is acceptable`,
+          code: 'NOT_ACCEPTABLE',
+        },
+      };
+    }
 
     let ctx: TContext | undefined;
 
@@ -335,28 +646,68 @@ export function createOpenApiHandler<TContext>(
       // Create context
       ctx = await createContext({ req, info: { path: procedurePath, type: procedureType } });
 
-      // Build input
-      const input = buildInput(req, params);
-
-      // Call procedure
-      const trpcCaller = caller(ctx);
-
-      // Navigate to the procedure (handles nested routers)
-      const pathParts = procedurePath.split('.');
-      let current: unknown = trpcCaller;
+      // Authorize secured routes before touching their input
+      const requirements = getSecurityRequirements(openapi, security);
+      if (authorize && requirements.length > 0) {
+        const allowed = await authorize({ requirements, ctx, path: procedurePath, req });
+        if (allowed === false) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'Not authorized for this operation' });
+        }
+      }
 
-      for (const part of pathParts) {
-        current = (current as Record<string, unknown>)[part];
+      // Build input
+      let input = buildInput(req, params, inputSchema, procedure._def.meta);
+      if (procedureType === 'subscription') {
+        input = withLastEventId(input, req);
       }
 
       // Execute the procedure
-      const result = await (current as (input: unknown) => Promise<unknown>)(input);
+      const result = await callProcedure({
+        procedurePath,
+        type: procedureType,
+        inputs: procedure._def.inputs || [],
+        output: procedure._def.output,
+        input,
+        ctx,
+        req,
+      });
 
-      return {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-        body: result,
-      };
+      // Subscriptions stream their events as SSE
+      if (procedureType === 'subscription') {
+        const streamCtx = ctx;
+        const response: OpenApiResponse = {
+          status: 200,
+          headers: {
+            'Content-Type': SSE_CONTENT_TYPE,
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+          },
+          body: createEventStream(result as AsyncIterable<unknown>, {
+            keepAliveMs: sse?.keepAliveMs,
+            signal: req.signal,
+            toErrorData: (error) => {
+              const err = error as TRPCError | Error;
+              onError?.({ error: err, path: procedurePath, req, ctx: streamCtx });
+              return errorToResponse(err).body;
+            },
+          }),
+        };
+
+        const finalResponse = withResponseMeta(response, { data: undefined, errors: [], ctx, path: procedurePath, req });
+        return method === 'HEAD' ? { ...finalResponse, body: undefined } : finalResponse;
+      }
+
+      // Procedures returning nothing answer 204 unless another status is declared
+      const status = openapi?.successStatus ?? (result === undefined ? 204 : 200);
+      // Without a declared type, the media type follows the kind of result
+      const contentType = openapi?.responseContentType ? responseType : undefined;
+      const response: OpenApiResponse =
+        status === 204 || result === undefined
+          ? { status, headers: {}, body: undefined }
+          : { status, ...getResultBody(result, contentType, openapi?.responseFilename) };
+
+      const finalResponse = withResponseMeta(response, { data: result, errors: [], ctx, path: procedurePath, req });
+      return method === 'HEAD' ? { ...finalResponse, body: undefined } : finalResponse;
     } catch (error) {
       const err = error as TRPCError | Error;
 
@@ -364,9 +715,48 @@ export function createOpenApiHandler<TContext>(
         onError({ error: err, path: procedurePath, req, ctx });
       }
 
-      return errorToResponse(err);
+      return withResponseMeta(errorToResponse(err), {
+        data: undefined,
+        errors: [err],
+        ctx,
+        path: procedurePath,
+        req,
+      });
     }
   };
+
+  return async (req: OpenApiRequest): Promise<OpenApiResponse> => {
+    const pathname = getPathname(req.url);
+    const allowedMethods = getAllowedMethods(table, pathname);
+
+    // OPTIONS (including CORS preflight) is answered from the route table
+    if (req.method.toUpperCase() === 'OPTIONS' && allowedMethods) {
+      const preflightHeaders =
+        cors && isPreflightRequest(req.method, req.headers)
+          ? getCorsHeaders(cors, req.headers, { allowedMethods })
+          : {};
+      return {
+        status: 204,
+        headers: { Allow: allowedMethods.join(', '), ...preflightHeaders },
+        body: undefined,
+      };
+    }
+
+    const response = await handle(req, pathname, allowedMethods);
+    if (!cors) return response;
+
+    return { ...response, headers: { ...response.headers, ...getCorsHeaders(cors, req.headers) } };
+  };
+}
+
+/**
+ * Create a predicate telling whether a request targets a registered route path
+ * (any method, so the handler can answer 405, HEAD and OPTIONS).
+ * Lets adapters skip unrelated requests before reading their body.
+ */
+export function createRouteMatcher(router: AnyRouter): (url: string) => boolean {
+  const table = buildRouteTable(router);
+  return (url) => getAllowedMethods(table, getPathname(url)) !== undefined;
 }
 
 /**
@@ -377,10 +767,10 @@ export function getOpenApiRoutes(router: AnyRouter): Array<{
   path: string;
   procedurePath: string;
 }> {
-  const routes = buildRouteTable(router);
+  const { routes } = buildRouteTable(router);
   return routes.map((r) => ({
     method: r.method,
-    path: r.regex.source.replace(/\\/g, '').replace(/\(\[\^\/\]\+\)/g, '{param}'),
+    path: r.path,
     procedurePath: r.procedurePath,
   }));
 }
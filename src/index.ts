@@ -1,13 +1,58 @@
 // Core procedure helpers
 export {
   createParser,
+  createValidateParser,
+  createEventParser,
   isTypiaParser,
   getSchemaFromParser,
   getFullSchemaFromParser,
+  type ParserOptions,
+  type ValidateParserOptions,
 } from './procedure';
 
+// Validation errors
+export {
+  TypiaValidationError,
+  getValidationIssues,
+  type ValidationIssue,
+  type ValidationErrorBody,
+} from './errors';
+
 // OpenAPI document generation
 export { generateOpenApiDocument, getOpenApiProcedures } from './generator';
+export { ComponentCollisionError } from './components';
+export { convertToOpenApi30 } from './openapi30';
+
+// Breaking-change detection
+export {
+  diffOpenApiDocuments,
+  type OpenApiChange,
+  type OpenApiChangeCode,
+  type OpenApiChangeSeverity,
+} from './diff';
+
+// REST client generation
+export { generateRestClient } from './client';
+
+// Metadata validation
+export {
+  validateOpenApiRouter,
+  getOpenApiRouterIssues,
+  OpenApiRouterValidationError,
+  type OpenApiRouterIssue,
+  type OpenApiRouterIssueCode,
+} from './validate';
+
+// Docs serving
+export {
+  buildOpenApiDocs,
+  renderDocsHtml,
+  type OpenApiDocsOptions,
+  type OpenApiDocsContent,
+  type DocsUi,
+  type DocsAsset,
+} from './docs';
+export { toYaml } from './yaml';
 
 // HTTP handler
 export {
@@ -17,8 +62,29 @@ export {
   type OpenApiResponse,
   type CreateContextFn,
   type CreateOpenApiHandlerOptions,
+  type ResponseMetaFn,
+  type AuthorizeFn,
 } from './handler';
 
+// Mock handler
+export {
+  createOpenApiMockHandler,
+  MOCK_ERROR_HEADER,
+  type OpenApiMockOptions,
+  type CreateOpenApiMockHandlerOptions,
+  type MockCallInfo,
+} from './mock';
+export { generateMockValue } from './mock-data';
+
+// Route matching
+export { RouteConflictError } from './route-tree';
+
+// CORS
+export type { CorsOptions } from './cors';
+
+// Server-Sent Events
+export type { SseOptions } from './sse';
+
 // Fastify adapter
 export {
   fastifyOpenApiPlugin,
@@ -27,11 +93,36 @@ export {
   type FastifyOpenApiPluginOptions,
 } from './adapters/fastify';
 
+// node:http / Express adapter
+export {
+  createNodeHttpHandler,
+  createExpressMiddleware,
+  type NodeHttpOpenApiHandlerOptions,
+  type NodeHttpCreateContextFn,
+} from './adapters/node-http';
+
+// Fetch API adapter
+export {
+  createFetchHandler,
+  type FetchOpenApiHandlerOptions,
+  type FetchCreateContextFn,
+} from './adapters/fetch';
+
 // Types
 export type {
   OpenApiMeta,
   GenerateOpenApiDocumentOptions,
+  OpenApiOperationFilterOptions,
+  GenerateRestClientOptions,
+  OpenApiCliConfig,
+  ComponentCollisionMode,
+  OpenApiVersion,
+  OpenApiConversionWarning,
+  OpenApiSecurityRequirement,
   TypiaParser,
   HttpMethod,
   ProcedureType,
+  UploadedFile,
+  UploadedFileHandle,
+  UploadLimits,
 } from './types';
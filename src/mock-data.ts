@@ -0,0 +1,254 @@
+import type { ComponentSchemas, JsonSchema } from './schema';
+import { resolveSchema } from './schema';
+
+/**
+ * Source of uniformly distributed numbers in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a deterministic random source (mulberry32)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hash a string to a 32-bit seed (FNV-1a)
+ */
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Nesting depth from which optional properties and extra array items are left out */
+const OPTIONAL_DEPTH = 4;
+/** Nesting depth at which generation stops (required recursive properties) */
+const MAX_DEPTH = 16;
+
+const WORDS = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel', 'india', 'juliet'];
+
+const DAY_MS = 86_400_000;
+/** 2020-01-01T00:00:00Z */
+const EPOCH_2020 = 1_577_836_800_000;
+
+/**
+ * Generation state threaded through nested schemas
+ */
+interface GeneratorState {
+  components: ComponentSchemas;
+  random: RandomSource;
+  depth: number;
+}
+
+/**
+ * Pick a random item
+ */
+function pick<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Random integer in [min, max]
+ */
+function integerBetween(min: number, max: number, random: RandomSource): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Random lowercase hex digits
+ */
+function hex(length: number, random: RandomSource): string {
+  let result = '';
+  for (let i = 0; i < length; i++) result += Math.floor(random() * 16).toString(16);
+  return result;
+}
+
+/**
+ * Generate a string honoring `format`, `minLength` and `maxLength`
+ */
+function generateString(schema: JsonSchema, random: RandomSource): string {
+  const word = () => pick(WORDS, random);
+  const timestamp = () => new Date(EPOCH_2020 + Math.floor(random() * 3650 * DAY_MS)).toISOString();
+
+  switch (schema.format) {
+    case 'email':
+    case 'idn-email':
+      return `${word()}.${word()}@example.com`;
+    case 'uuid':
+      return `${hex(8, random)}-${hex(4, random)}-4${hex(3, random)}-${pick(['8', '9', 'a', 'b'], random)}${hex(3, random)}-${hex(12, random)}`;
+    case 'date-time':
+      return timestamp();
+    case 'date':
+      return timestamp().slice(0, 10);
+    case 'time':
+      return timestamp().slice(11, 19);
+    case 'uri':
+    case 'url':
+    case 'iri':
+      return `https://example.com/${word()}`;
+    case 'uri-reference':
+    case 'iri-reference':
+      return `/${word()}/${word()}`;
+    case 'hostname':
+    case 'idn-hostname':
+      return `${word()}.example.com`;
+    case 'ipv4':
+      return [0, 0, 0, 0].map(() => integerBetween(1, 254, random)).join('.');
+    case 'ipv6':
+      return Array.from({ length: 8 }, () => hex(4, random)).join(':');
+    case 'byte':
+      return btoa(word());
+  }
+
+  const minLength = typeof schema.minLength === 'number' ? schema.minLength : 0;
+  const maxLength = typeof schema.maxLength === 'number' ? schema.maxLength : undefined;
+
+  let value = word();
+  while (value.length < minLength) value += word();
+  return maxLength === undefined ? value : value.slice(0, maxLength);
+}
+
+/**
+ * Generate a number within the schema's bounds, on its `multipleOf` grid
+ */
+function generateNumber(schema: JsonSchema, integer: boolean, random: RandomSource): number {
+  const exclusiveMinimum = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : undefined;
+  const exclusiveMaximum = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : undefined;
+  let low = typeof schema.minimum === 'number' ? schema.minimum : exclusiveMinimum;
+  let high = typeof schema.maximum === 'number' ? schema.maximum : exclusiveMaximum;
+  if (low === undefined) low = high === undefined ? 0 : high - 100;
+  if (high === undefined) high = low + 100;
+
+  const step = typeof schema.multipleOf === 'number' ? schema.multipleOf : integer ? 1 : undefined;
+  if (step) {
+    let first = Math.ceil(low / step);
+    let last = Math.floor(high / step);
+    if (exclusiveMinimum !== undefined && first * step <= exclusiveMinimum) first++;
+    if (exclusiveMaximum !== undefined && last * step >= exclusiveMaximum) last--;
+    return (last < first ? first : integerBetween(first, last, random)) * step;
+  }
+
+  const value = Math.round((low + random() * (high - low)) * 100) / 100;
+  const outOfBounds =
+    (exclusiveMinimum !== undefined && value <= exclusiveMinimum) ||
+    (exclusiveMaximum !== undefined && value >= exclusiveMaximum);
+  return outOfBounds ? (low + high) / 2 : value;
+}
+
+/**
+ * Generate an object: required properties always, optional ones until OPTIONAL_DEPTH
+ */
+function generateObject(schema: JsonSchema, state: GeneratorState): Record<string, unknown> {
+  const nested = { ...state, depth: state.depth + 1 };
+  const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+  const properties = (schema.properties || {}) as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+
+  for (const [name, property] of Object.entries(properties)) {
+    if (required.includes(name) || state.depth < OPTIONAL_DEPTH) {
+      result[name] = generate(property, nested);
+    }
+  }
+
+  // Records (`Record<string, T>`) get a couple of entries
+  const { additionalProperties } = schema;
+  if (typeof additionalProperties === 'object' && Object.keys(properties).length === 0 && state.depth < OPTIONAL_DEPTH) {
+    for (let i = integerBetween(1, 2, state.random); i > 0; i--) {
+      result[pick(WORDS, state.random)] = generate(additionalProperties, nested);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Generate an array honoring tuples, `minItems` and `maxItems`
+ */
+function generateArray(schema: JsonSchema, state: GeneratorState): unknown[] {
+  const nested = { ...state, depth: state.depth + 1 };
+  const prefixItems = Array.isArray(schema.prefixItems) ? (schema.prefixItems as unknown[]) : [];
+  const tuple = prefixItems.map((item) => generate(item, nested));
+  if (schema.items === undefined || schema.items === false) return tuple;
+
+  const minItems = typeof schema.minItems === 'number' ? schema.minItems : state.depth < OPTIONAL_DEPTH ? 1 : 0;
+  const maxItems = typeof schema.maxItems === 'number' ? schema.maxItems : minItems + 2;
+  const count = state.depth < OPTIONAL_DEPTH ? integerBetween(minItems, Math.max(minItems, maxItems), state.random) : minItems;
+
+  for (let i = tuple.length; i < count; i++) {
+    tuple.push(generate(schema.items, nested));
+  }
+  return tuple;
+}
+
+/**
+ * Generate a value for a (possibly referenced) schema
+ */
+function generate(schema: unknown, state: GeneratorState): unknown {
+  const resolved = resolveSchema(schema, state.components);
+  if (!resolved || state.depth > MAX_DEPTH) return null;
+  const { random } = state;
+
+  if ('const' in resolved) return resolved.const;
+  if (Array.isArray(resolved.enum) && resolved.enum.length > 0) return pick(resolved.enum, random);
+  if (Array.isArray(resolved.examples) && resolved.examples.length > 0) return pick(resolved.examples, random);
+
+  const alternatives = (resolved.oneOf || resolved.anyOf) as unknown[] | undefined;
+  if (Array.isArray(alternatives) && alternatives.length > 0) {
+    // Prefer non-null members, which make more useful mock data, until deep nesting
+    // (where null ends recursive types)
+    const candidates = alternatives.filter((member) => resolveSchema(member, state.components)?.type !== 'null');
+    if (candidates.length < alternatives.length && state.depth >= OPTIONAL_DEPTH) return null;
+    return generate(pick(candidates.length > 0 ? candidates : alternatives, random), state);
+  }
+
+  if (Array.isArray(resolved.allOf)) {
+    const parts = resolved.allOf.map((member) => generate(member, state));
+    const isRecord = (part: unknown) => typeof part === 'object' && part !== null && !Array.isArray(part);
+    return parts.every(isRecord) ? Object.assign({}, ...parts) : parts[parts.length - 1];
+  }
+
+  const types = (Array.isArray(resolved.type) ? resolved.type : [resolved.type]) as unknown[];
+  const type = types.find((candidate) => candidate !== 'null') ?? types[0];
+
+  switch (type) {
+    case 'object':
+      return generateObject(resolved, state);
+    case 'array':
+      return generateArray(resolved, state);
+    case 'string':
+      return generateString(resolved, random);
+    case 'integer':
+      return generateNumber(resolved, true, random);
+    case 'number':
+      return generateNumber(resolved, false, random);
+    case 'boolean':
+      return random() < 0.5;
+    default:
+      return resolved.properties ? generateObject(resolved, state) : null;
+  }
+}
+
+/**
+ * Generate a value matching a JSON schema, for mock responses.
+ * Optional properties are filled down to a few levels of nesting; string
+ * `pattern`s are not honored.
+ */
+export function generateMockValue(
+  schema: unknown,
+  components: ComponentSchemas,
+  random: RandomSource = Math.random
+): unknown {
+  return generate(schema, { components, random, depth: 0 });
+}
@@ -0,0 +1,207 @@
+import type { AnyRouter, TRPC_ERROR_CODE_KEY } from '@trpc/server';
+import { TRPCError, tracked } from '@trpc/server';
+import type {
+  OpenApiRequest,
+  OpenApiResponse,
+  CreateContextFn,
+  CreateOpenApiHandlerOptions,
+} from './handler';
+import { createOpenApiHandler, createProcedureHandler } from './handler';
+import { getSchemaFromParser, isTypiaParser } from './procedure';
+import { getComponentsFromParser } from './schema';
+import { TRPC_ERROR_STATUS } from './errors';
+import type { RandomSource } from './mock-data';
+import { createSeededRandom, generateMockValue, hashSeed } from './mock-data';
+
+/**
+ * Request header selecting a simulated error (e.g. `X-Mock-Error: NOT_FOUND`)
+ */
+export const MOCK_ERROR_HEADER = 'x-mock-error';
+
+/**
+ * A mocked call, passed to fixtures and error simulators
+ */
+export interface MockCallInfo {
+  procedurePath: string;
+  /** Input after validation by the procedure's parsers */
+  input: unknown;
+  req: OpenApiRequest;
+}
+
+/**
+ * Mock data and error settings
+ */
+export interface OpenApiMockOptions {
+  /** Seed of the built-in generator: the same seed, operation and input give the same data */
+  seed?: number;
+  /**
+   * Data per procedure path, replacing generated data.
+   * Called once per event for subscriptions.
+   */
+  fixtures?: Record<string, (info: MockCallInfo) => unknown>;
+  /**
+   * Simulated errors per procedure path: an error code, or a function returning one
+   * (undefined answers normally)
+   */
+  errors?: Record<string, TRPC_ERROR_CODE_KEY | ((info: MockCallInfo) => TRPC_ERROR_CODE_KEY | undefined)>;
+  /** Number of events sent by each mocked subscription (default: 3) */
+  subscriptionEvents?: number;
+}
+
+/**
+ * Options for {@link createOpenApiMockHandler}
+ */
+export interface CreateOpenApiMockHandlerOptions<TContext>
+  extends OpenApiMockOptions,
+    Omit<CreateOpenApiHandlerOptions<TContext>, 'router' | 'createContext'> {
+  /** Context factory; its errors (e.g. UNAUTHORIZED) are answered like in the real handler */
+  createContext?: CreateContextFn<TContext>;
+}
+
+/**
+ * Run the input parsers the way tRPC does, merging object results.
+ * Parser failures become BAD_REQUEST errors carrying the Typia error.
+ */
+async function parseInput(inputs: unknown[], input: unknown): Promise<unknown> {
+  let result: unknown = input;
+
+  for (const [index, parser] of inputs.entries()) {
+    if (typeof parser !== 'function') continue;
+
+    let parsed: unknown;
+    try {
+      parsed = await parser(input);
+    } catch (cause) {
+      if (cause instanceof TRPCError) throw cause;
+      const message = cause instanceof Error ? cause.message : 'Input validation failed';
+      throw new TRPCError({ code: 'BAD_REQUEST', message, cause });
+    }
+
+    const isRecord = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+    result = index > 0 && isRecord(result) && isRecord(parsed) ? { ...(result as object), ...(parsed as object) } : parsed;
+  }
+
+  return result;
+}
+
+/**
+ * Error code to simulate for a call: the `X-Mock-Error` header wins over configured errors
+ */
+function getSimulatedError(
+  info: MockCallInfo,
+  errors: OpenApiMockOptions['errors'] = {}
+): TRPC_ERROR_CODE_KEY | undefined {
+  const header = info.req.headers[MOCK_ERROR_HEADER];
+  const requested = (Array.isArray(header) ? header[0] : header)?.trim().toUpperCase();
+  if (requested && requested in TRPC_ERROR_STATUS) return requested as TRPC_ERROR_CODE_KEY;
+
+  const configured = errors[info.procedurePath];
+  return typeof configured === 'function' ? configured(info) : configured;
+}
+
+/**
+ * Random source of one call: seeded from the operation and its input when a seed is set
+ */
+function getCallRandom(seed: number | undefined, procedurePath: string, input: unknown): RandomSource {
+  if (seed === undefined) return Math.random;
+
+  let serialized: string;
+  try {
+    serialized = JSON.stringify(input) ?? '';
+  } catch {
+    serialized = '';
+  }
+  return createSeededRandom(hashSeed(`${seed}:${procedurePath}:${serialized}`));
+}
+
+/**
+ * Generate data for an output parser: its attached `typia.createRandom<T>()`,
+ * otherwise the built-in generator walking its schema
+ */
+function generateOutput(output: unknown, random: RandomSource): unknown {
+  if (!isTypiaParser(output)) return undefined;
+  if (output._typiaRandom) return output._typiaRandom();
+
+  const schema = getSchemaFromParser(output);
+  return schema === undefined ? undefined : generateMockValue(schema, getComponentsFromParser(output), random);
+}
+
+/**
+ * Emit a fixed number of mocked events, with ids so clients can resume
+ */
+async function* mockEvents(
+  next: () => unknown,
+  count: number,
+  signal: AbortSignal | undefined
+): AsyncGenerator<unknown> {
+  for (let i = 1; i <= count && !signal?.aborted; i++) {
+    yield tracked(String(i), await next());
+  }
+}
+
+/**
+ * Create an OpenAPI HTTP handler answering from output schemas instead of resolvers.
+ *
+ * Routing, input coercion and validation (with the real Typia parsers), content
+ * negotiation and error bodies behave like {@link createOpenApiHandler}; the resolver
+ * is skipped and the response holds fixture data, `typia.createRandom<T>()` data
+ * attached to the output parser (`createParser(assert, schema, { random })`), or data
+ * generated from the output schema.
+ *
+ * @example
+ * ```typescript
+ * import { createOpenApiMockHandler } from 'trpc-typia-openapi';
+ *
+ * const handler = createOpenApiMockHandler(appRouter, {
+ *   seed: 42,
+ *   fixtures: { 'users.me': () => ({ id: '1', name: 'Ada' }) },
+ *   errors: { 'users.delete': 'FORBIDDEN' },
+ * });
+ *
+ * const response = await handler(request);
+ * ```
+ */
+export function createOpenApiMockHandler<TContext = undefined>(
+  router: AnyRouter,
+  options: CreateOpenApiMockHandlerOptions<TContext> = {}
+): (req: OpenApiRequest) => Promise<OpenApiResponse> {
+  const {
+    createContext = () => undefined as TContext,
+    seed,
+    fixtures = {},
+    errors,
+    subscriptionEvents = 3,
+    ...handlerOptions
+  } = options;
+
+  return createProcedureHandler(
+    { ...handlerOptions, router, createContext },
+    async ({ procedurePath, type, inputs, output, input: rawInput, req }) => {
+      const input = await parseInput(inputs, rawInput);
+      const info: MockCallInfo = { procedurePath, input, req };
+
+      const code = getSimulatedError(info, errors);
+      if (code) {
+        throw new TRPCError({ code, message: `Simulated ${code} error` });
+      }
+
+      const fixture = fixtures[procedurePath];
+      const random = getCallRandom(seed, procedurePath, input);
+      const next = () => (fixture ? fixture(info) : generateOutput(output, random));
+
+      return type === 'subscription' ? mockEvents(next, subscriptionEvents, req.signal) : next();
+    }
+  );
+}
+
+/**
+ * Create the handler used by the adapters: the mock handler when `mock` is set,
+ * the regular handler otherwise
+ */
+export function createAdapterHandler<TContext>(
+  opts: CreateOpenApiHandlerOptions<TContext> & { mock?: OpenApiMockOptions }
+): (req: OpenApiRequest) => Promise<OpenApiResponse> {
+  const { mock, ...handlerOptions } = opts;
+  if (!mock) return createOpenApiHandler(handlerOptions);
+  return createOpenApiMockHandler(opts.router, { ...handlerOptions, ...mock });
+}
@@ -0,0 +1,202 @@
+import { TRPCError } from '@trpc/server';
+import type { UploadLimits, UploadedFileHandle } from './types';
+import type { JsonSchema, ComponentSchemas } from './schema';
+import { resolveSchema } from './schema';
+
+/**
+ * Fields and files of a parsed `multipart/form-data` body
+ */
+export interface MultipartData {
+  /** Text parts by field name (repeated names keep every value); has no prototype */
+  fields: Record<string, string[]>;
+  /** File parts by field name; has no prototype */
+  files: Record<string, UploadedFileHandle[]>;
+}
+
+const CRLF = new Uint8Array([13, 10]);
+const HEADER_END = new Uint8Array([13, 10, 13, 10]);
+const DASH = 45;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Check whether a Content-Type denotes a multipart form
+ */
+export function isMultipartContentType(contentType: string | undefined): boolean {
+  return (contentType || '').toLowerCase().startsWith('multipart/form-data');
+}
+
+/**
+ * Extract the boundary parameter of a multipart Content-Type
+ */
+function getBoundary(contentType: string): string | undefined {
+  const match = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+/**
+ * Find a byte sequence, starting at `from`
+ */
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from: number): number {
+  const last = haystack.length - needle.length;
+  outer: for (let i = from; i <= last; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Read a parameter (`name="..."`, `filename*=UTF-8''...`) from a Content-Disposition header
+ */
+function getDispositionParam(disposition: string, param: string): string | undefined {
+  const extended = new RegExp(`;\\s*${param}\\*=([^']*)'[^']*'([^;]+)`, 'i').exec(disposition);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2]);
+    } catch {
+      return extended[2];
+    }
+  }
+
+  const match = new RegExp(`;\\s*${param}=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;]+))`, 'i').exec(disposition);
+  if (!match) return undefined;
+  return match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2].trim();
+}
+
+/**
+ * Wrap buffered contents in a file handle
+ */
+function createUploadedFile(name: string, type: string, data: Uint8Array): UploadedFileHandle {
+  return {
+    name,
+    type,
+    size: data.byteLength,
+    bytes: () => data,
+    text: () => decoder.decode(data),
+    stream: () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(data);
+          controller.close();
+        },
+      }),
+  };
+}
+
+/**
+ * Parse a buffered `multipart/form-data` body.
+ * Throws BAD_REQUEST for malformed bodies and PAYLOAD_TOO_LARGE when `limits` are exceeded.
+ */
+export function parseMultipart(
+  body: Uint8Array,
+  contentType: string,
+  limits: UploadLimits = {}
+): MultipartData {
+  const boundary = getBoundary(contentType);
+  if (!boundary) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Missing multipart boundary' });
+  }
+
+  const malformed = () => new TRPCError({ code: 'BAD_REQUEST', message: 'Malformed multipart body' });
+  const delimiter = encoder.encode(`--${boundary}`);
+  // Every delimiter after the first is preceded by a line break
+  const nextDelimiter = encoder.encode(`\r\n--${boundary}`);
+
+  // Part names are client-chosen, so they must not resolve to Object.prototype members
+  const result: MultipartData = { fields: Object.create(null), files: Object.create(null) };
+  let fileCount = 0;
+
+  let position = indexOfBytes(body, delimiter, 0);
+  if (position === -1) throw malformed();
+  position += delimiter.length;
+
+  while (true) {
+    // Closing delimiter: --boundary--
+    if (body[position] === DASH && body[position + 1] === DASH) break;
+    if (indexOfBytes(body, CRLF, position) !== position) throw malformed();
+    position += CRLF.length;
+
+    const headerEnd = indexOfBytes(body, HEADER_END, position);
+    if (headerEnd === -1) throw malformed();
+
+    const headers: Record<string, string> = {};
+    for (const line of decoder.decode(body.subarray(position, headerEnd)).split('\r\n')) {
+      const colon = line.indexOf(':');
+      if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+
+    const contentStart = headerEnd + HEADER_END.length;
+    const contentEnd = indexOfBytes(body, nextDelimiter, contentStart);
+    if (contentEnd === -1) throw malformed();
+    const content = body.subarray(contentStart, contentEnd);
+    position = contentEnd + nextDelimiter.length;
+
+    const disposition = headers['content-disposition'] || '';
+    const name = getDispositionParam(disposition, 'name');
+    if (name === undefined) continue;
+
+    const filename = getDispositionParam(disposition, 'filename');
+    if (filename === undefined) {
+      (result.fields[name] ??= []).push(decoder.decode(content));
+      continue;
+    }
+
+    fileCount++;
+    if (limits.maxFiles !== undefined && fileCount > limits.maxFiles) {
+      throw new TRPCError({ code: 'PAYLOAD_TOO_LARGE', message: `Too many files (maximum ${limits.maxFiles})` });
+    }
+    if (limits.maxFileSize !== undefined && content.byteLength > limits.maxFileSize) {
+      throw new TRPCError({
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `File "${filename}" exceeds ${limits.maxFileSize} bytes`,
+      });
+    }
+
+    const type = headers['content-type'] || 'application/octet-stream';
+    (result.files[name] ??= []).push(createUploadedFile(filename, type, content));
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a schema describes an uploaded file (`UploadedFile` carries `format: binary`)
+ */
+export function isFileSchema(schema: JsonSchema | undefined): boolean {
+  return schema?.format === 'binary' && schema.type !== 'string';
+}
+
+/**
+ * Check whether an input property holds a list of files
+ */
+export function isFileArraySchema(schema: JsonSchema | undefined, components: ComponentSchemas): boolean {
+  const resolved = resolveSchema(schema, components);
+  return resolved?.type === 'array' && isFileSchema(resolved.items as JsonSchema | undefined);
+}
+
+/**
+ * Rewrite file properties of a multipart body schema as `type: string, format: binary`
+ */
+export function toMultipartSchema(
+  properties: Record<string, JsonSchema>,
+  components: ComponentSchemas
+): Record<string, JsonSchema> {
+  const binary = { type: 'string', format: 'binary' };
+  const result: Record<string, JsonSchema> = {};
+
+  for (const [name, schema] of Object.entries(properties)) {
+    if (isFileSchema(schema)) {
+      result[name] = { ...binary };
+    } else if (isFileArraySchema(schema, components)) {
+      result[name] = { type: 'array', items: { ...binary } };
+    } else {
+      result[name] = schema;
+    }
+  }
+
+  return result;
+}
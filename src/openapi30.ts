@@ -0,0 +1,386 @@
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import type { OpenApiConversionWarning } from './types';
+import type { JsonSchema } from './schema';
+
+type WarnFn = (pointer: string, message: string) => void;
+
+/**
+ * JSON Schema keywords without an OpenAPI 3.0 equivalent
+ */
+const UNSUPPORTED_KEYWORDS = new Set([
+  '$schema',
+  '$id',
+  '$anchor',
+  '$comment',
+  '$defs',
+  '$dynamicRef',
+  '$dynamicAnchor',
+  'additionalItems',
+  'contains',
+  'minContains',
+  'maxContains',
+  'patternProperties',
+  'propertyNames',
+  'unevaluatedItems',
+  'unevaluatedProperties',
+  'dependentRequired',
+  'dependentSchemas',
+  'if',
+  'then',
+  'else',
+  'contentEncoding',
+  'contentMediaType',
+  'contentSchema',
+]);
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Escape a key for use in a JSON pointer
+ */
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Check whether a value is a plain (non-array) object
+ */
+function isObject(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a schema only admits null (`{ type: 'null' }`)
+ */
+function isNullSchema(schema: unknown): boolean {
+  return isObject(schema) && schema.type === 'null' && Object.keys(schema).length === 1;
+}
+
+/**
+ * Apply a conversion to every value of a map
+ */
+function mapValues(
+  map: unknown,
+  pointer: string,
+  convert: (value: unknown, pointer: string) => unknown
+): Record<string, unknown> | undefined {
+  if (!isObject(map)) return undefined;
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(map)) {
+    result[key] = convert(value, `${pointer}/${escapePointer(key)}`);
+  }
+  return result;
+}
+
+/**
+ * Convert a JSON Schema 2020-12 (OpenAPI 3.1) schema to an OpenAPI 3.0 schema object
+ */
+function convertSchema(schema: unknown, pointer: string, warn: WarnFn): unknown {
+  // 3.0 has no boolean schemas
+  if (schema === true) return {};
+  if (schema === false) return { not: {} };
+  if (!isObject(schema)) return schema;
+
+  // Siblings of $ref are ignored in 3.0, so keep them next to an allOf
+  if (typeof schema.$ref === 'string' && Object.keys(schema).length > 1) {
+    const { $ref, allOf, ...rest } = schema;
+    return convertSchema({ ...rest, allOf: [{ $ref }, ...((allOf as unknown[]) || [])] }, pointer, warn);
+  }
+
+  const result: JsonSchema = {};
+  const convert = (value: unknown, at: string) => convertSchema(value, at, warn);
+  let nullable = false;
+  let nullOnly = false;
+  let tuple: unknown[] | undefined;
+
+  for (const [key, value] of Object.entries(schema)) {
+    const at = `${pointer}/${escapePointer(key)}`;
+
+    if (UNSUPPORTED_KEYWORDS.has(key)) {
+      warn(at, `"${key}" is not supported by OpenAPI 3.0 and was dropped`);
+      continue;
+    }
+
+    switch (key) {
+      case 'type': {
+        const types = (Array.isArray(value) ? value : [value]) as string[];
+        const nonNull = types.filter((type) => type !== 'null');
+        nullable ||= nonNull.length < types.length;
+        nullOnly = nonNull.length === 0;
+        if (nonNull.length === 1) {
+          result.type = nonNull[0];
+        } else if (nonNull.length > 1) {
+          result.anyOf = [...((result.anyOf as unknown[]) || []), ...nonNull.map((type) => ({ type }))];
+        }
+        break;
+      }
+      case 'const':
+        result.enum = [value];
+        break;
+      case 'examples':
+        if (Array.isArray(value) && value.length > 0) result.example = value[0];
+        break;
+      case 'exclusiveMinimum':
+      case 'exclusiveMaximum':
+        // Converted after the loop, together with minimum/maximum
+        break;
+      case 'prefixItems':
+        tuple = (value as unknown[]).map((item, index) => convert(item, `${at}/${index}`));
+        warn(at, 'tuple items were relaxed to an array of their union');
+        break;
+      case 'items':
+        if (typeof value !== 'boolean') result.items = convert(value, at);
+        break;
+      case 'not':
+        result.not = convert(value, at);
+        break;
+      case 'additionalProperties':
+        result.additionalProperties = typeof value === 'boolean' ? value : convert(value, at);
+        break;
+      case 'properties':
+        result.properties = mapValues(value, at, convert);
+        break;
+      case 'allOf':
+      case 'anyOf':
+      case 'oneOf': {
+        const members = value as unknown[];
+        const nonNull = key === 'allOf' ? members : members.filter((member) => !isNullSchema(member));
+        const converted = nonNull.map((member) => convert(member, `${at}/${members.indexOf(member)}`));
+        if (nonNull.length < members.length) {
+          nullable = true;
+          nullOnly = nonNull.length === 0;
+          // `T | null` becomes a nullable T
+          if (converted.length === 1) {
+            const [member] = converted as JsonSchema[];
+            const inline = !('$ref' in member) && Object.keys(member).every((name) => !(name in result));
+            if (inline) Object.assign(result, member);
+            else result.allOf = [...((result.allOf as unknown[]) || []), member];
+            break;
+          }
+        }
+        if (converted.length > 0) result[key] = [...((result[key] as unknown[]) || []), ...converted];
+        break;
+      }
+      default:
+        result[key] = value;
+    }
+  }
+
+  for (const [exclusive, inclusive, isStricter] of [
+    ['exclusiveMinimum', 'minimum', (bound: number, limit: number) => bound >= limit],
+    ['exclusiveMaximum', 'maximum', (bound: number, limit: number) => bound <= limit],
+  ] as const) {
+    const bound = schema[exclusive];
+    if (typeof bound !== 'number') continue;
+    const limit = schema[inclusive];
+    if (typeof limit !== 'number' || isStricter(bound, limit)) {
+      result[inclusive] = bound;
+      result[exclusive] = true;
+    }
+  }
+
+  if (tuple) {
+    const members = result.items ? [...tuple, result.items] : tuple;
+    result.items = members.length === 1 ? members[0] : { anyOf: members };
+  }
+
+  // Arrays require items in 3.0
+  if (result.type === 'array' && result.items === undefined) {
+    result.items = {};
+  }
+
+  // 3.0 only admits null in an enum of a nullable schema (`const: null`, `enum: ['a', null]`)
+  if (Array.isArray(result.enum) && result.enum.includes(null)) {
+    nullable = true;
+  }
+
+  if (nullable) {
+    result.nullable = true;
+    if (nullOnly) {
+      result.enum = [null];
+      warn(pointer, 'a schema admitting only null cannot be typed in OpenAPI 3.0');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert the schemas of a media type map (`content`)
+ */
+function convertContent(content: unknown, pointer: string, warn: WarnFn): unknown {
+  return mapValues(content, pointer, (mediaType, at) => {
+    if (!isObject(mediaType)) return mediaType;
+    const result: JsonSchema = { ...mediaType };
+    if (mediaType.schema !== undefined) {
+      result.schema = convertSchema(mediaType.schema, `${at}/schema`, warn);
+    }
+    return result;
+  });
+}
+
+/**
+ * Convert a parameter or header object
+ */
+function convertParameter(parameter: unknown, pointer: string, warn: WarnFn): unknown {
+  if (!isObject(parameter) || '$ref' in parameter) return parameter;
+  const result: JsonSchema = { ...parameter };
+  if (parameter.schema !== undefined) {
+    result.schema = convertSchema(parameter.schema, `${pointer}/schema`, warn);
+  }
+  if (parameter.content !== undefined) {
+    result.content = convertContent(parameter.content, `${pointer}/content`, warn);
+  }
+  return result;
+}
+
+/**
+ * Convert a request body or response object
+ */
+function convertBody(body: unknown, pointer: string, warn: WarnFn): unknown {
+  if (!isObject(body) || '$ref' in body) return body;
+  const result: JsonSchema = { ...body };
+  if (body.content !== undefined) {
+    result.content = convertContent(body.content, `${pointer}/content`, warn);
+  }
+  if (body.headers !== undefined) {
+    result.headers = mapValues(body.headers, `${pointer}/headers`, (header, at) =>
+      convertParameter(header, at, warn)
+    );
+  }
+  return result;
+}
+
+/**
+ * Convert a list of parameters
+ */
+function convertParameters(parameters: unknown, pointer: string, warn: WarnFn): unknown {
+  if (!Array.isArray(parameters)) return parameters;
+  return parameters.map((parameter, index) => convertParameter(parameter, `${pointer}/${index}`, warn));
+}
+
+/**
+ * Convert the operations of a path item
+ */
+function convertPathItem(pathItem: unknown, pointer: string, warn: WarnFn): unknown {
+  if (!isObject(pathItem)) return pathItem;
+  const result: JsonSchema = { ...pathItem };
+
+  if (pathItem.parameters !== undefined) {
+    result.parameters = convertParameters(pathItem.parameters, `${pointer}/parameters`, warn);
+  }
+
+  for (const method of HTTP_METHODS) {
+    const operation = pathItem[method];
+    if (!isObject(operation)) continue;
+    const at = `${pointer}/${method}`;
+    const converted: JsonSchema = { ...operation };
+
+    if (operation.parameters !== undefined) {
+      converted.parameters = convertParameters(operation.parameters, `${at}/parameters`, warn);
+    }
+    if (operation.requestBody !== undefined) {
+      converted.requestBody = convertBody(operation.requestBody, `${at}/requestBody`, warn);
+    }
+    if (operation.responses !== undefined) {
+      converted.responses = mapValues(operation.responses, `${at}/responses`, (response, path) =>
+        convertBody(response, path, warn)
+      );
+    }
+    if (operation.callbacks !== undefined) {
+      delete converted.callbacks;
+      warn(`${at}/callbacks`, 'callbacks are not converted to OpenAPI 3.0 and were dropped');
+    }
+
+    result[method] = converted;
+  }
+
+  return result;
+}
+
+/**
+ * Convert the reusable components
+ */
+function convertComponents(components: unknown, pointer: string, warn: WarnFn): unknown {
+  if (!isObject(components)) return components;
+  const { pathItems, ...rest } = components;
+  const result: JsonSchema = { ...rest };
+
+  if (pathItems !== undefined) {
+    warn(`${pointer}/pathItems`, '"pathItems" components are not supported by OpenAPI 3.0 and were dropped');
+  }
+
+  const converters: Record<string, (value: unknown, at: string) => unknown> = {
+    schemas: (schema, at) => convertSchema(schema, at, warn),
+    parameters: (parameter, at) => convertParameter(parameter, at, warn),
+    headers: (header, at) => convertParameter(header, at, warn),
+    requestBodies: (body, at) => convertBody(body, at, warn),
+    responses: (response, at) => convertBody(response, at, warn),
+  };
+
+  for (const [key, convert] of Object.entries(converters)) {
+    if (components[key] !== undefined) {
+      result[key] = mapValues(components[key], `${pointer}/${key}`, convert);
+    }
+  }
+
+  if (isObject(components.securitySchemes)) {
+    const securitySchemes: JsonSchema = {};
+    for (const [name, scheme] of Object.entries(components.securitySchemes)) {
+      if (isObject(scheme) && scheme.type === 'mutualTLS') {
+        warn(`${pointer}/securitySchemes/${escapePointer(name)}`, 'mutualTLS is not supported by OpenAPI 3.0 and was dropped');
+        continue;
+      }
+      securitySchemes[name] = scheme;
+    }
+    result.securitySchemes = securitySchemes;
+  }
+
+  return result;
+}
+
+/**
+ * Convert a generated OpenAPI 3.1 document to OpenAPI 3.0.3.
+ *
+ * Schemas in parameters, bodies, responses and components are rewritten:
+ * `type: [T, 'null']` and `T | null` unions become `nullable`, numeric
+ * `exclusiveMinimum`/`exclusiveMaximum` take the boolean form, `const` becomes a
+ * single-value `enum` and `examples` becomes `example`. Anything 3.0 cannot express
+ * is dropped or approximated and reported through `onWarning`.
+ */
+export function convertToOpenApi30(
+  document: OpenAPIV3_1.Document,
+  onWarning?: (warning: OpenApiConversionWarning) => void
+): OpenAPIV3.Document {
+  const warn: WarnFn = (pointer, message) => onWarning?.({ pointer, message });
+  const { openapi: _openapi, webhooks, jsonSchemaDialect, info, paths, components, ...rest } = document;
+
+  if (webhooks !== undefined) warn('#/webhooks', 'webhooks are not supported by OpenAPI 3.0 and were dropped');
+  if (jsonSchemaDialect !== undefined) {
+    warn('#/jsonSchemaDialect', '"jsonSchemaDialect" is not supported by OpenAPI 3.0 and was dropped');
+  }
+
+  const { summary, license, ...restInfo } = info;
+  if (summary !== undefined) warn('#/info/summary', '"info.summary" is not supported by OpenAPI 3.0 and was dropped');
+  const convertedInfo: JsonSchema = { ...restInfo };
+  if (license) {
+    const { identifier, ...restLicense } = license;
+    if (identifier !== undefined) {
+      warn('#/info/license/identifier', '"license.identifier" is not supported by OpenAPI 3.0 and was dropped');
+    }
+    convertedInfo.license = restLicense;
+  }
+
+  const result: JsonSchema = {
+    openapi: '3.0.3',
+    info: convertedInfo,
+    ...rest,
+    paths: mapValues(paths || {}, '#/paths', (pathItem, at) => convertPathItem(pathItem, at, warn)),
+  };
+
+  if (components !== undefined) {
+    result.components = convertComponents(components, '#/components', warn);
+  }
+
+  return result as unknown as OpenAPIV3.Document;
+}
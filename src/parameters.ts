@@ -0,0 +1,77 @@
+import type { OpenApiMeta, ParameterMapping } from './types';
+
+/**
+ * Input property sourced from a header or cookie
+ */
+export interface MappedParameter {
+  /** Property name in the procedure input */
+  property: string;
+  /** Header or cookie name on the wire */
+  name: string;
+}
+
+/**
+ * Header and cookie parameters declared in procedure meta
+ */
+export interface MappedParameters {
+  headers: MappedParameter[];
+  cookies: MappedParameter[];
+}
+
+/**
+ * Normalize a list or rename map into property/name pairs
+ */
+function normalizeMapping(mapping: ParameterMapping | undefined): MappedParameter[] {
+  if (!mapping) return [];
+  if (Array.isArray(mapping)) {
+    return mapping.map((property) => ({ property, name: property }));
+  }
+  return Object.entries(mapping).map(([property, name]) => ({ property, name }));
+}
+
+/**
+ * Get the header and cookie parameters of a procedure
+ */
+export function getMappedParameters(meta: OpenApiMeta | undefined): MappedParameters {
+  return {
+    headers: normalizeMapping(meta?.openapi?.headers),
+    cookies: normalizeMapping(meta?.openapi?.cookies),
+  };
+}
+
+/**
+ * Names of all input properties that are read from headers or cookies
+ */
+export function getMappedPropertyNames(mapped: MappedParameters): string[] {
+  return [...mapped.headers, ...mapped.cookies].map(({ property }) => property);
+}
+
+/**
+ * Parse a `Cookie` request header into name/value pairs
+ */
+export function parseCookies(header: string | string[] | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  const raw = Array.isArray(header) ? header.join('; ') : header;
+  if (!raw) return cookies;
+
+  for (const part of raw.split(';')) {
+    const eqIndex = part.indexOf('=');
+    if (eqIndex === -1) continue;
+
+    const name = part.slice(0, eqIndex).trim();
+    let value = part.slice(eqIndex + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    // First occurrence wins, as in most cookie parsers
+    if (name && !(name in cookies)) {
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch {
+        cookies[name] = value;
+      }
+    }
+  }
+
+  return cookies;
+}
@@ -1,4 +1,7 @@
+import type { IValidation } from 'typia';
+import { TRPCError, isTrackedEnvelope, tracked } from '@trpc/server';
 import type { TypiaParser, JsonSchemaCollection } from './types';
+import { TypiaValidationError } from './errors';
 
 /**
  * Creates a tRPC-compatible parser from Typia's assert function and JSON schema.
@@ -24,11 +27,124 @@ import type { TypiaParser, JsonSchemaCollection } from './types';
  */
 export function createParser<T>(
   assertFn: (input: unknown) => T,
-  schema: JsonSchemaCollection
+  schema: JsonSchemaCollection,
+  options: ParserOptions<T> = {}
 ): TypiaParser<T> {
   const parser = assertFn as TypiaParser<T>;
   parser._typiaSchema = schema;
   parser._isTypiaParser = true;
+  parser._typiaRandom = options.random;
+  return parser;
+}
+
+/**
+ * Options shared by the parser factories
+ */
+export interface ParserOptions<T> {
+  /** `typia.createRandom<T>()` - mock data for `createOpenApiMockHandler` */
+  random?: () => T;
+}
+
+/**
+ * Options for {@link createValidateParser}
+ */
+export interface ValidateParserOptions<T> extends ParserOptions<T> {
+  /** `typia.misc.createPrune<T>()` - removes unknown properties in place */
+  prune?: (input: T) => void;
+  /** `typia.misc.createClone<T>()` - returns a copy holding only declared properties */
+  clone?: (input: T) => T;
+}
+
+/**
+ * Creates a tRPC-compatible parser from Typia's validate function and JSON schema.
+ *
+ * Unlike {@link createParser}, every invalid field is collected: a failed
+ * validation throws one `BAD_REQUEST` TRPCError whose cause is a
+ * {@link TypiaValidationError} listing all `IValidation.IError`s.
+ *
+ * @example
+ * ```typescript
+ * const createUserInput = createValidateParser(
+ *   typia.createValidate<CreateUserInput>(),
+ *   typia.json.schemas<[CreateUserInput], "3.1">(),
+ *   { prune: typia.misc.createPrune<CreateUserInput>() }
+ * );
+ * ```
+ */
+export function createValidateParser<T>(
+  validateFn: (input: unknown) => IValidation<T>,
+  schema: JsonSchemaCollection,
+  options: ValidateParserOptions<T> = {}
+): TypiaParser<T> {
+  const { prune, clone, random } = options;
+
+  const parser = ((input: unknown): T => {
+    const result = validateFn(input);
+
+    if (!result.success) {
+      const cause = new TypiaValidationError(
+        result.errors.map(({ path, expected, value }) => ({ path, expected, value }))
+      );
+      throw new TRPCError({ code: 'BAD_REQUEST', message: cause.message, cause });
+    }
+
+    if (clone) return clone(result.data);
+    if (prune) prune(result.data);
+    return result.data;
+  }) as TypiaParser<T>;
+
+  parser._typiaSchema = schema;
+  parser._isTypiaParser = true;
+  parser._typiaRandom = random;
+  return parser;
+}
+
+/**
+ * Creates a subscription output parser validating every yielded event.
+ *
+ * tRPC hands subscription output parsers the async iterable itself, so this parser
+ * wraps it and asserts each value (the data of `tracked()` events). The embedded
+ * schema documents the event payload of the SSE endpoint.
+ *
+ * @example
+ * ```typescript
+ * const onMessage = t.procedure
+ *   .meta({ openapi: { method: 'GET', path: '/messages/stream' } })
+ *   .output(createEventParser(typia.createAssert<Message>(), typia.json.schemas<[Message], "3.1">()))
+ *   .subscription(async function* () {
+ *     for await (const message of messages) yield tracked(message.id, message);
+ *   });
+ * ```
+ */
+export function createEventParser<T>(
+  assertFn: (input: unknown) => T,
+  schema: JsonSchemaCollection,
+  options: ParserOptions<T> = {}
+): TypiaParser<AsyncIterable<T>> {
+  // An invalid event is a server bug, reported like tRPC's own output validation
+  const assertEvent = (value: unknown): T => {
+    try {
+      return assertFn(value);
+    } catch (cause) {
+      throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Output validation failed', cause });
+    }
+  };
+
+  const parser = ((source: unknown): AsyncIterable<T> => {
+    const iterable = source as AsyncIterable<unknown>;
+
+    return (async function* () {
+      for await (const value of iterable) {
+        yield (
+          isTrackedEnvelope(value) ? tracked(value[0], assertEvent(value[1])) : assertEvent(value)
+        ) as T;
+      }
+    })();
+  }) as TypiaParser<AsyncIterable<T>>;
+
+  parser._typiaSchema = schema;
+  parser._isTypiaParser = true;
+  parser._typiaRandom = options.random;
   return parser;
 }
 
@@ -0,0 +1,263 @@
+import type { OpenApiMeta, QueryParameterSerialization, QueryParameterStyle } from './types';
+import type { RawParameter } from './coerce';
+import type { ComponentSchemas, InputObjectSchema, JsonSchema } from './schema';
+import { resolveSchema } from './schema';
+
+/**
+ * Query serialization options as declared in procedure meta
+ */
+type QuerySerializationMeta = NonNullable<OpenApiMeta['openapi']>['querySerialization'];
+
+/**
+ * Effective serialization of one array or object query parameter
+ */
+export interface ResolvedQuerySerialization {
+  kind: 'array' | 'object';
+  style: QueryParameterStyle;
+  explode: boolean;
+}
+
+const ARRAY_STYLES: QueryParameterStyle[] = ['form', 'spaceDelimited', 'pipeDelimited'];
+const OBJECT_STYLES: QueryParameterStyle[] = ['form', 'deepObject'];
+
+const DELIMITERS: Record<string, string> = {
+  form: ',',
+  spaceDelimited: ' ',
+  pipeDelimited: '|',
+};
+
+/** Key segments that would reach object prototypes */
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Decode a query string component (`+` means space in form encoding).
+ * Malformed escapes are kept as-is.
+ */
+function decodeQueryComponent(value: string): string {
+  const spaced = value.replace(/\+/g, ' ');
+  try {
+    return decodeURIComponent(spaced);
+  } catch {
+    return spaced;
+  }
+}
+
+/**
+ * Parse a raw query string, collecting repeated keys into arrays.
+ * The result has no prototype, so keys like `constructor` or `__proto__` are plain entries.
+ */
+export function parseQueryString(queryString: string): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = Object.create(null);
+
+  for (const pair of queryString.split('&')) {
+    if (!pair) continue;
+    const eqIndex = pair.indexOf('=');
+    const rawKey = eqIndex === -1 ? pair : pair.slice(0, eqIndex);
+    const rawValue = eqIndex === -1 ? '' : pair.slice(eqIndex + 1);
+    if (!rawKey) continue;
+
+    const key = decodeQueryComponent(rawKey);
+    const value = decodeQueryComponent(rawValue);
+    const existing = query[key];
+
+    if (existing === undefined) {
+      query[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      query[key] = [existing, value];
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Determine whether a property schema is an array or an object,
+ * looking through $refs and nullable unions
+ */
+function getSchemaKind(
+  schema: unknown,
+  components: ComponentSchemas
+): { kind: 'array' | 'object'; schema: JsonSchema } | undefined {
+  const resolved = resolveSchema(schema, components);
+  if (!resolved) return undefined;
+
+  if (resolved.type === 'array' || resolved.type === 'object') {
+    return { kind: resolved.type, schema: resolved };
+  }
+
+  const union = (resolved.oneOf || resolved.anyOf) as unknown[] | undefined;
+  if (Array.isArray(union)) {
+    const members = union
+      .map((member) => resolveSchema(member, components))
+      .filter((member) => member && member.type !== 'null');
+    if (members.length === 1) return getSchemaKind(members[0], components);
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the serialization of a query parameter from meta and its schema.
+ * Returns undefined for scalar parameters, which need no special handling.
+ */
+export function getQuerySerialization(
+  name: string,
+  propSchema: unknown,
+  components: ComponentSchemas,
+  serialization: QuerySerializationMeta
+): ResolvedQuerySerialization | undefined {
+  const found = getSchemaKind(propSchema, components);
+  if (!found) return undefined;
+
+  const override: QueryParameterSerialization = serialization?.parameters?.[name] || {};
+  const allowed = found.kind === 'array' ? ARRAY_STYLES : OBJECT_STYLES;
+  const style =
+    [override.style, serialization?.style].find(
+      (candidate): candidate is QueryParameterStyle => !!candidate && allowed.includes(candidate)
+    ) || (found.kind === 'array' ? 'form' : 'deepObject');
+
+  // OpenAPI defaults: explode for form, deepObject is always exploded
+  const explode =
+    style === 'deepObject'
+      ? true
+      : override.explode ?? serialization?.explode ?? style === 'form';
+
+  return { kind: found.kind, style, explode };
+}
+
+/**
+ * Split a serialized array value according to its style
+ */
+function deserializeArray(
+  values: RawParameter[],
+  style: QueryParameterStyle,
+  explode: boolean
+): string[] {
+  const strings = values.filter((value): value is string => typeof value === 'string');
+  if (explode && style === 'form') return strings;
+
+  const delimiter = DELIMITERS[style] || ',';
+  return strings.flatMap((value) => (value === '' ? [] : value.split(delimiter)));
+}
+
+/**
+ * Parse `name[a][b]` into ['a', 'b'], or undefined when the key does not belong to name
+ */
+function parseDeepObjectKey(key: string, name: string): string[] | undefined {
+  if (!key.startsWith(`${name}[`)) return undefined;
+
+  const segments: string[] = [];
+  const pattern = /\[([^\]]*)\]/g;
+  let consumed = name.length;
+  let match: RegExpExecArray | null;
+
+  pattern.lastIndex = consumed;
+  while ((match = pattern.exec(key)) && match.index === consumed) {
+    segments.push(match[1]);
+    consumed = pattern.lastIndex;
+  }
+
+  if (segments.some((segment) => UNSAFE_KEYS.has(segment))) return undefined;
+  return consumed === key.length && segments.length > 0 ? segments : undefined;
+}
+
+/**
+ * Assign a value into a nested raw object following key segments
+ */
+function assignDeep(
+  target: { [key: string]: RawParameter },
+  segments: string[],
+  value: RawParameter
+): void {
+  let current = target;
+  for (const segment of segments.slice(0, -1)) {
+    const next = Object.prototype.hasOwnProperty.call(current, segment) ? current[segment] : undefined;
+    if (typeof next !== 'object' || next === null || Array.isArray(next)) {
+      current[segment] = Object.create(null);
+    }
+    current = current[segment] as { [key: string]: RawParameter };
+  }
+  current[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Rebuild array and object query parameters from their serialized form.
+ *
+ * Arrays accept repeated keys (`form`, explode), delimited values
+ * (`form` without explode, `spaceDelimited`, `pipeDelimited`) and the
+ * common `name[]` spelling. Objects accept `deepObject` keys
+ * (`filter[status]=open`), exploded `form` keys matching the object's
+ * properties, and `form` without explode (`filter=status,open`).
+ * Scalar parameters and unknown keys are returned unchanged.
+ */
+export function deserializeQuery(
+  query: Record<string, RawParameter | undefined>,
+  inputSchema: InputObjectSchema | undefined,
+  serialization: QuerySerializationMeta
+): Record<string, RawParameter | undefined> {
+  const result = { ...query };
+  if (!inputSchema) return result;
+
+  const { properties, components } = inputSchema;
+
+  for (const [name, propSchema] of Object.entries(properties)) {
+    const resolved = getQuerySerialization(name, propSchema, components, serialization);
+    if (!resolved) continue;
+
+    if (resolved.kind === 'array') {
+      const values = [result[name], result[`${name}[]`]]
+        .flatMap((value) => (value === undefined ? [] : Array.isArray(value) ? value : [value]));
+      delete result[`${name}[]`];
+      if (values.length === 0) continue;
+      result[name] = deserializeArray(values, resolved.style, resolved.explode);
+      continue;
+    }
+
+    if (resolved.style === 'deepObject') {
+      const value: { [key: string]: RawParameter } = {};
+      for (const key of Object.keys(result)) {
+        const segments = parseDeepObjectKey(key, name);
+        const raw = result[key];
+        if (!segments || raw === undefined) continue;
+        assignDeep(value, segments, raw);
+        delete result[key];
+      }
+      if (Object.keys(value).length > 0) result[name] = value;
+      continue;
+    }
+
+    const objectSchema = getSchemaKind(propSchema, components)?.schema;
+    const raw = result[name];
+
+    if (!resolved.explode) {
+      // filter=status,open,owner,me
+      if (typeof raw !== 'string') continue;
+      const parts = raw === '' ? [] : raw.split(',');
+      const value: { [key: string]: RawParameter } = {};
+      for (let i = 0; i + 1 < parts.length; i += 2) {
+        value[parts[i]] = parts[i + 1];
+      }
+      result[name] = value;
+      continue;
+    }
+
+    // Exploded form: the object's properties appear as top-level keys
+    const objectProperties = Object.keys(
+      (objectSchema?.properties as Record<string, unknown> | undefined) || {}
+    );
+    const value: { [key: string]: RawParameter } = {};
+    for (const key of objectProperties) {
+      // Never steal keys that belong to another input property
+      if (key in properties) continue;
+      const item = result[key];
+      if (item === undefined) continue;
+      value[key] = item;
+      delete result[key];
+    }
+    if (Object.keys(value).length > 0) result[name] = value;
+  }
+
+  return result;
+}
@@ -0,0 +1,109 @@
+import { isAsyncIterable } from './sse';
+
+/**
+ * Body and headers computed from a procedure's return value
+ */
+export interface ResultBody {
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Check whether a media type is JSON (`application/json`, `application/problem+json`, ...)
+ */
+export function isJsonContentType(contentType: string): boolean {
+  return /^[^/;]+\/([^;]+\+)?json\s*(;|$)/i.test(contentType);
+}
+
+/**
+ * Check whether a value is a byte stream (Node `Readable` or web `ReadableStream`)
+ * rather than an iterable of values
+ */
+function isByteStream(value: unknown): boolean {
+  if (typeof ReadableStream !== 'undefined' && value instanceof ReadableStream) return true;
+  return typeof (value as { pipe?: unknown }).pipe === 'function';
+}
+
+/**
+ * Serialize each value of an async iterable as one JSON line
+ */
+async function* toNdjson(source: AsyncIterable<unknown>): AsyncGenerator<string> {
+  for await (const value of source) {
+    yield `${JSON.stringify(value ?? null)}\n`;
+  }
+}
+
+/**
+ * Write string and byte chunks of an async iterable as-is, JSON-encoding other values
+ */
+async function* toTextChunks(source: AsyncIterable<unknown>): AsyncGenerator<string | Uint8Array> {
+  for await (const value of source) {
+    yield typeof value === 'string' || value instanceof Uint8Array ? value : JSON.stringify(value ?? null);
+  }
+}
+
+/**
+ * Build a `Content-Disposition: attachment` header value, with an RFC 5987
+ * `filename*` for names that are not plain ASCII
+ */
+export function getContentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  if (fallback === filename) return `attachment; filename="${filename}"`;
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Turn a procedure result into a response body according to its kind and the
+ * declared `responseContentType`:
+ *
+ * - byte streams (`Readable`, `ReadableStream`) are passed through unbuffered
+ * - other async iterables are written as NDJSON, one value per line, unless a non-JSON
+ *   content type is declared (CSV, plain text, ...), in which case string chunks are written as-is
+ * - `Uint8Array`/`Buffer` is sent as-is (`application/octet-stream` by default)
+ * - strings are sent as-is for non-JSON content types (CSV, plain text, ...)
+ * - anything else is JSON
+ */
+export function getResultBody(
+  result: unknown,
+  responseContentType: string | undefined,
+  responseFilename?: string
+): ResultBody {
+  const headers: Record<string, string> = {};
+  if (responseFilename) {
+    headers['Content-Disposition'] = getContentDisposition(responseFilename);
+  }
+
+  const withType = (contentType: string, body: unknown): ResultBody => ({
+    headers: { 'Content-Type': contentType, ...headers },
+    body,
+  });
+
+  if (isAsyncIterable(result)) {
+    if (isByteStream(result) && responseContentType !== NDJSON_CONTENT_TYPE) {
+      return withType(responseContentType || 'application/octet-stream', result);
+    }
+    if (responseContentType && responseContentType !== NDJSON_CONTENT_TYPE && !isJsonContentType(responseContentType)) {
+      return withType(responseContentType, toTextChunks(result));
+    }
+    return withType(responseContentType || NDJSON_CONTENT_TYPE, toNdjson(result));
+  }
+
+  if (result instanceof Uint8Array) {
+    return withType(responseContentType || 'application/octet-stream', result);
+  }
+
+  if (responseContentType && !isJsonContentType(responseContentType)) {
+    return withType(
+      responseContentType,
+      typeof result === 'string' ? result : JSON.stringify(result ?? null)
+    );
+  }
+
+  // Strings are sent verbatim by the adapters, so JSON strings are encoded here
+  return withType(
+    responseContentType || 'application/json',
+    typeof result === 'string' ? JSON.stringify(result) : result
+  );
+}
@@ -0,0 +1,283 @@
+/**
+ * Prefix tree of URL path segments used for route matching.
+ *
+ * Routes are inserted into a tree with one level per path segment. Before the first
+ * lookup the tree is compiled into a second tree whose nodes already merge every
+ * route a segment can fall back to: static segments win over mixed segments
+ * (`{id}.json`), which win over plain parameters, so `/users/me` always beats
+ * `/users/{id}` regardless of declaration order, while `DELETE /users/me` still
+ * reaches `DELETE /users/{id}`. A lookup then takes a single child per segment and
+ * never backtracks, so it is linear in the path length.
+ */
+
+/**
+ * Value registered for one method on one path
+ */
+export interface RouteLeaf<T> {
+  /** Original path template (e.g. /users/{id}) */
+  path: string;
+  /** Parameter names in path order */
+  params: string[];
+  /** Segments holding parameters, with the pattern of mixed segments */
+  captures: Array<{ index: number; regex?: RegExp }>;
+  /** Name used in conflict errors (e.g. the procedure path) */
+  label?: string;
+  value: T;
+}
+
+/**
+ * A node of the route tree (one path segment)
+ */
+export interface RouteNode<T> {
+  /** Children keyed by static segment */
+  static: Map<string, RouteNode<T>>;
+  /** Children for segments mixing text and parameters, e.g. `{name}.json` */
+  mixed: Array<{ pattern: string; regex: RegExp; node: RouteNode<T> }>;
+  /** Child for a whole-segment parameter */
+  param?: RouteNode<T>;
+  /** Registered routes ending at this node, by HTTP method */
+  methods: Map<string, RouteLeaf<T>>;
+}
+
+/**
+ * Result of looking up a pathname
+ */
+export interface RouteTreeMatch<T> {
+  /** Compiled node reached by the pathname (every method answered for the path) */
+  node: RouteNode<T>;
+  /** Raw parameter values in path order */
+  values: string[];
+}
+
+/**
+ * Error thrown when two routes claim the same method and path
+ */
+export class RouteConflictError extends Error {
+  constructor(
+    readonly method: string,
+    readonly path: string,
+    readonly label: string | undefined,
+    readonly existing: { path: string; label?: string }
+  ) {
+    const describe = (routePath: string, routeLabel?: string) =>
+      routeLabel ? `${method} ${routePath} (${routeLabel})` : `${method} ${routePath}`;
+    super(`Route conflict: ${describe(path, label)} clashes with ${describe(existing.path, existing.label)}`);
+    this.name = 'RouteConflictError';
+  }
+}
+
+const PARAM_PATTERN = /\{([^}]+)\}/g;
+
+/** Compiled trees by root, dropped whenever a route is inserted */
+const compiledTrees = new WeakMap<RouteNode<unknown>, RouteNode<unknown>>();
+
+/**
+ * Create an empty node
+ */
+function createNode<T>(): RouteNode<T> {
+  return { static: new Map(), mixed: [], methods: new Map() };
+}
+
+/**
+ * Create an empty route tree
+ */
+export function createRouteTree<T>(): RouteNode<T> {
+  return createNode<T>();
+}
+
+/**
+ * Split a pathname into segments (leading slash ignored)
+ */
+function splitPath(path: string): string[] {
+  const trimmed = path.startsWith('/') ? path.slice(1) : path;
+  return trimmed === '' ? [] : trimmed.split('/');
+}
+
+/**
+ * Escape a string for use inside a regular expression
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Insert a route. Throws {@link RouteConflictError} when the method is already
+ * registered for an equivalent path (parameter names do not matter).
+ */
+export function insertRoute<T>(
+  root: RouteNode<T>,
+  method: string,
+  path: string,
+  value: T,
+  label?: string
+): void {
+  const params: string[] = [];
+  const captures: RouteLeaf<T>['captures'] = [];
+  let node = root;
+
+  for (const [index, segment] of splitPath(path).entries()) {
+    const segmentParams = [...segment.matchAll(PARAM_PATTERN)].map((match) => match[1]);
+
+    if (segmentParams.length === 0) {
+      let child = node.static.get(segment);
+      if (!child) {
+        child = createNode<T>();
+        node.static.set(segment, child);
+      }
+      node = child;
+      continue;
+    }
+
+    params.push(...segmentParams);
+
+    if (segment === `{${segmentParams[0]}}`) {
+      captures.push({ index });
+      node.param ??= createNode<T>();
+      node = node.param;
+      continue;
+    }
+
+    // Mixed segment: compare by shape so {a}.json and {b}.json share a node
+    const pattern = segment.replace(PARAM_PATTERN, '{}');
+    let mixed = node.mixed.find((entry) => entry.pattern === pattern);
+    if (!mixed) {
+      const source = segment
+        .split(PARAM_PATTERN)
+        .map((part, partIndex) => (partIndex % 2 === 1 ? '(.+?)' : escapeRegex(part)))
+        .join('');
+      mixed = { pattern, regex: new RegExp(`^${source}$`), node: createNode<T>() };
+      node.mixed.push(mixed);
+    }
+    captures.push({ index, regex: mixed.regex });
+    node = mixed.node;
+  }
+
+  const upperMethod = method.toUpperCase();
+  const existing = node.methods.get(upperMethod);
+  if (existing) {
+    throw new RouteConflictError(upperMethod, path, label, existing);
+  }
+
+  node.methods.set(upperMethod, { path, params, captures, label, value });
+  compiledTrees.delete(root);
+}
+
+/**
+ * Children of a node that accept a static segment, in precedence order
+ */
+function staticCandidates<T>(node: RouteNode<T>, segment: string): RouteNode<T>[] {
+  const candidates: RouteNode<T>[] = [];
+  const staticChild = node.static.get(segment);
+  if (staticChild) candidates.push(staticChild);
+  for (const mixed of node.mixed) {
+    if (mixed.regex.test(segment)) candidates.push(mixed.node);
+  }
+  // Parameters never match an empty segment (e.g. /users//posts)
+  if (node.param && segment !== '') candidates.push(node.param);
+  return candidates;
+}
+
+/**
+ * Merge source nodes (in precedence order) into one compiled node.
+ * For each method the leaf of the first source registering it wins. Children of
+ * the compiled node merge every source child the same segment could reach, so a
+ * lookup can commit to one child without losing the fallbacks.
+ */
+function compileNode<T>(sources: RouteNode<T>[]): RouteNode<T> {
+  const node = createNode<T>();
+
+  for (const source of sources) {
+    for (const [method, leaf] of source.methods) {
+      if (!node.methods.has(method)) node.methods.set(method, leaf);
+    }
+  }
+
+  const staticKeys = new Set(sources.flatMap((source) => [...source.static.keys()]));
+  for (const key of staticKeys) {
+    node.static.set(key, compileNode(sources.flatMap((source) => staticCandidates(source, key))));
+  }
+
+  // A segment matching a mixed pattern falls back to the same pattern, then to
+  // parameters, but not to other mixed patterns it also happens to match
+  const patterns = new Map<string, RegExp>();
+  for (const source of sources) {
+    for (const mixed of source.mixed) {
+      if (!patterns.has(mixed.pattern)) patterns.set(mixed.pattern, mixed.regex);
+    }
+  }
+  for (const [pattern, regex] of patterns) {
+    const children = sources.flatMap((source) => [
+      ...source.mixed.filter((mixed) => mixed.pattern === pattern).map((mixed) => mixed.node),
+      ...(source.param ? [source.param] : []),
+    ]);
+    node.mixed.push({ pattern, regex, node: compileNode(children) });
+  }
+
+  const params = sources.flatMap((source) => (source.param ? [source.param] : []));
+  if (params.length > 0) node.param = compileNode(params);
+
+  return node;
+}
+
+/**
+ * Get the compiled tree for a root, compiling it on first use
+ */
+function getCompiledTree<T>(root: RouteNode<T>): RouteNode<T> {
+  let compiled = compiledTrees.get(root) as RouteNode<T> | undefined;
+  if (!compiled) {
+    compiled = compileNode([root]);
+    compiledTrees.set(root, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Walk the compiled tree, taking exactly one child per segment
+ */
+function walk<T>(root: RouteNode<T>, segments: string[]): RouteNode<T> | undefined {
+  let node: RouteNode<T> | undefined = root;
+
+  for (const segment of segments) {
+    const current: RouteNode<T> = node;
+    node =
+      current.static.get(segment) ??
+      current.mixed.find((mixed) => mixed.regex.test(segment))?.node ??
+      (segment !== '' ? current.param : undefined);
+    if (!node) return undefined;
+  }
+
+  return node;
+}
+
+/**
+ * Find the node registered for a pathname, together with raw parameter values.
+ * With a method, only routes registering that method qualify, so
+ * `DELETE /users/me` still reaches `DELETE /users/{id}` next to `GET /users/me`.
+ * Runs in time linear in the path length.
+ */
+export function findRoute<T>(
+  root: RouteNode<T>,
+  pathname: string,
+  method?: string
+): RouteTreeMatch<T> | null {
+  const segments = splitPath(pathname);
+  const node = walk(getCompiledTree(root), segments);
+  if (!node) return null;
+
+  const leaf = method ? node.methods.get(method.toUpperCase()) : node.methods.values().next().value;
+  if (!leaf) return null;
+
+  const values = leaf.captures.flatMap(({ index, regex }) =>
+    regex ? regex.exec(segments[index])!.slice(1) : [segments[index]]
+  );
+  return { node, values };
+}
+
+/**
+ * List the methods any route answers for a pathname
+ * (`/users/me` gets GET from `/users/me` and DELETE from `/users/{id}`)
+ */
+export function findRouteMethods<T>(root: RouteNode<T>, pathname: string): string[] {
+  const node = walk(getCompiledTree(root), splitPath(pathname));
+  return node ? [...node.methods.keys()] : [];
+}
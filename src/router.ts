@@ -0,0 +1,77 @@
+import type { OpenApiMeta } from './types';
+
+/**
+ * Internal procedure definition structure from tRPC
+ */
+export interface ProcedureDef {
+  _def: {
+    type: 'query' | 'mutation' | 'subscription';
+    meta?: OpenApiMeta;
+    inputs?: unknown[];
+    output?: unknown;
+  };
+}
+
+/**
+ * Internal router definition structure from tRPC
+ */
+export interface RouterDef {
+  _def: {
+    procedures: Record<string, unknown>;
+    router: boolean;
+  };
+}
+
+/**
+ * A procedure with its dotted tRPC path
+ */
+export interface RouterProcedure {
+  procedurePath: string;
+  procedure: ProcedureDef;
+}
+
+/**
+ * Check if a value is a tRPC router (top-level or nested)
+ */
+export function isRouter(value: unknown): value is RouterDef {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    '_def' in value &&
+    typeof (value as RouterDef)._def === 'object' &&
+    (value as RouterDef)._def !== null &&
+    'router' in (value as RouterDef)._def &&
+    (value as RouterDef)._def.router === true
+  );
+}
+
+/**
+ * Recursively collect all procedures of a router, in router order
+ */
+export function collectProcedures(
+  router: unknown,
+  prefix: string = '',
+  result: RouterProcedure[] = []
+): RouterProcedure[] {
+  const routerDef = router as RouterDef;
+  if (!routerDef._def?.procedures) return result;
+
+  for (const [name, value] of Object.entries(routerDef._def.procedures)) {
+    const procedurePath = prefix ? `${prefix}.${name}` : name;
+
+    if (isRouter(value)) {
+      collectProcedures(value, procedurePath, result);
+    } else {
+      result.push({ procedurePath, procedure: value as ProcedureDef });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Collect the procedures that declare OpenAPI metadata, in router order
+ */
+export function collectOpenApiProcedures(router: unknown): RouterProcedure[] {
+  return collectProcedures(router).filter(({ procedure }) => procedure._def?.meta?.openapi);
+}
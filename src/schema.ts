@@ -0,0 +1,73 @@
+import { getSchemaFromParser, getFullSchemaFromParser } from './procedure';
+
+/**
+ * Loose JSON schema shape (covers both Typia 3.0 and 3.1 output)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Component schemas keyed by name, as found under `components.schemas`
+ */
+export type ComponentSchemas = Record<string, JsonSchema>;
+
+/**
+ * Resolved object schema of a procedure input
+ */
+export interface InputObjectSchema {
+  /** Property schemas (may still contain nested $refs) */
+  properties: Record<string, JsonSchema>;
+  /** Required property names */
+  required: string[];
+  /** Components used to resolve nested $refs */
+  components: ComponentSchemas;
+}
+
+const COMPONENT_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Extracts the component schemas embedded in a Typia parser
+ */
+export function getComponentsFromParser(parser: unknown): ComponentSchemas {
+  const fullSchema = getFullSchemaFromParser(parser);
+  // Typia outputs components as { schemas: { TypeName: {...} } }
+  const typiaComponents = fullSchema?.components as { schemas?: ComponentSchemas } | undefined;
+  return typiaComponents?.schemas || {};
+}
+
+/**
+ * Follow `#/components/schemas/...` references until a concrete schema is reached.
+ * Returns undefined for unknown references.
+ */
+export function resolveSchema(
+  schema: unknown,
+  components: ComponentSchemas
+): JsonSchema | undefined {
+  let current = schema as JsonSchema | undefined;
+  const seen = new Set<string>();
+
+  while (current && typeof current.$ref === 'string') {
+    const ref = current.$ref;
+    if (!ref.startsWith(COMPONENT_REF_PREFIX) || seen.has(ref)) return undefined;
+    seen.add(ref);
+    current = components[decodeURIComponent(ref.slice(COMPONENT_REF_PREFIX.length))];
+  }
+
+  return current;
+}
+
+/**
+ * Get the resolved object schema of a procedure's input parser.
+ * Returns undefined when the parser has no schema or the input is not an object.
+ */
+export function getInputObjectSchema(parser: unknown): InputObjectSchema | undefined {
+  const components = getComponentsFromParser(parser);
+  const schema = resolveSchema(getSchemaFromParser(parser), components);
+
+  if (!schema || schema.type !== 'object') return undefined;
+
+  return {
+    properties: (schema.properties as Record<string, JsonSchema>) || {},
+    required: (schema.required as string[]) || [],
+    components,
+  };
+}
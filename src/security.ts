@@ -0,0 +1,25 @@
+import type { OpenApiMeta, OpenApiSecurityRequirement } from './types';
+
+/**
+ * Security requirements of an operation: its explicit `security`, else the requirements
+ * given to `protect`, else the default ones. An empty list means public.
+ */
+export function getSecurityRequirements(
+  openapi: OpenApiMeta['openapi'],
+  defaultSecurity: OpenApiSecurityRequirement[] = []
+): OpenApiSecurityRequirement[] {
+  if (openapi?.security) return openapi.security;
+
+  const protect = openapi?.protect;
+  if (Array.isArray(protect)) return protect;
+  if (typeof protect === 'object') return [protect];
+  return defaultSecurity;
+}
+
+/**
+ * Check whether an operation declares its own security requirements (instead of
+ * inheriting the document-level ones)
+ */
+export function hasOwnSecurity(openapi: OpenApiMeta['openapi']): boolean {
+  return openapi?.security !== undefined || typeof openapi?.protect === 'object';
+}
@@ -0,0 +1,128 @@
+import { isTrackedEnvelope } from '@trpc/server';
+
+/**
+ * Options for Server-Sent Events responses
+ */
+export interface SseOptions {
+  /** Interval of keep-alive comments in milliseconds, 0 to disable (default: 15000) */
+  keepAliveMs?: number;
+}
+
+/**
+ * A single SSE frame
+ */
+export interface SseEvent {
+  id?: string;
+  event?: string;
+  data: unknown;
+}
+
+export const SSE_CONTENT_TYPE = 'text/event-stream';
+
+const DEFAULT_KEEP_ALIVE_MS = 15_000;
+
+/**
+ * Check whether a value is an async iterable (subscription result or streamed body)
+ */
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+}
+
+/**
+ * Serialize one SSE frame. Data is JSON-encoded; multi-line data spans several `data:` lines.
+ */
+export function formatSseEvent({ id, event, data }: SseEvent): string {
+  const lines: string[] = [];
+  if (event) lines.push(`event: ${event}`);
+  if (id !== undefined) lines.push(`id: ${id.replace(/[\r\n]/g, '')}`);
+  for (const line of JSON.stringify(data ?? null).split('\n')) {
+    lines.push(`data: ${line}`);
+  }
+  return `${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Turn a subscription's async iterable into SSE text chunks.
+ *
+ * Values yielded with `tracked(id, data)` get an `id:` line, so browsers send it back
+ * as `Last-Event-ID` when reconnecting. A comment line is sent whenever the source has
+ * been quiet for `keepAliveMs`. Iteration stops when `signal` aborts; an error thrown
+ * by the source is sent as a final `event: error` frame built by `toErrorData`.
+ */
+export async function* createEventStream(
+  source: AsyncIterable<unknown>,
+  opts: {
+    keepAliveMs?: number;
+    signal?: AbortSignal;
+    toErrorData: (error: unknown) => unknown;
+  }
+): AsyncGenerator<string> {
+  const { keepAliveMs = DEFAULT_KEEP_ALIVE_MS, signal, toErrorData } = opts;
+  const iterator = source[Symbol.asyncIterator]();
+
+  // A single abort listener and a single reaction per pulled value settle the wait of the
+  // current iteration, so nothing piles up on long-lived promises while the stream is quiet
+  let wake: (() => void) | undefined;
+  let aborted = signal?.aborted ?? false;
+  const onAbort = () => {
+    aborted = true;
+    wake?.();
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let pulled: { result: IteratorResult<unknown> } | { error: unknown } | undefined;
+  const pull = () => {
+    iterator.next().then(
+      (result) => {
+        pulled = { result };
+        wake?.();
+      },
+      (error: unknown) => {
+        pulled = { error };
+        wake?.();
+      }
+    );
+  };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  pull();
+
+  try {
+    while (true) {
+      if (!pulled && !aborted) {
+        const quiet = await new Promise<boolean>((resolve) => {
+          wake = () => resolve(false);
+          if (keepAliveMs > 0) timer = setTimeout(() => resolve(true), keepAliveMs);
+        });
+        wake = undefined;
+        clearTimeout(timer);
+
+        if (quiet) {
+          yield ': keep-alive\n\n';
+          continue;
+        }
+      }
+
+      if (aborted) return;
+      const current = pulled!;
+      pulled = undefined;
+      if ('error' in current) throw current.error;
+      if (current.result.done) return;
+
+      pull();
+
+      const value = current.result.value;
+      yield isTrackedEnvelope(value)
+        ? formatSseEvent({ id: String(value[0]), data: value[1] })
+        : formatSseEvent({ data: value });
+    }
+  } catch (error) {
+    yield formatSseEvent({ event: 'error', data: toErrorData(error) });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+    // Let the source run its cleanup (finally blocks, unsubscribe);
+    // a pending value after the client left is dropped
+    iterator.return?.()?.catch(() => {});
+  }
+}
@@ -1,4 +1,6 @@
 import type { OpenAPIV3_1 } from 'openapi-types';
+import type { TRPC_ERROR_CODE_KEY } from '@trpc/server';
+import type { tags } from 'typia';
 
 /**
  * OpenAPI metadata for tRPC procedures.
@@ -18,19 +20,129 @@ export interface OpenApiMeta {
     description?: string;
     /** Whether this endpoint is deprecated */
     deprecated?: boolean;
-    /** Content type for request body (default: application/json) */
-    contentType?: string;
-    /** Override response content type */
-    responseContentType?: string;
-    /** Custom response headers */
+    /** Leave out of generated documents unless `includeInternal` is set (the route is still served) */
+    internal?: boolean;
+    /**
+     * Accepted request body media types (default: application/json). Others get a 415.
+     * Supports `application/x-www-form-urlencoded` and `multipart/form-data` (uploads).
+     */
+    contentType?: string | string[];
+    /** Limits on `multipart/form-data` file parts */
+    upload?: UploadLimits;
+    /**
+     * Response media types (default: application/json), negotiated against `Accept` (406 when
+     * none is acceptable). With a non-JSON type, string results are sent as-is; Buffers,
+     * streams and async iterables are detected at runtime.
+     */
+    responseContentType?: string | string[];
+    /** Send the response as a download (`Content-Disposition: attachment`) */
+    responseFilename?: string;
+    /** Custom response headers (documented on the success response) */
     responseHeaders?: Record<string, OpenAPIV3_1.HeaderObject>;
-    /** Protect endpoint (adds security requirement) */
-    protect?: boolean;
+    /** HTTP status of a successful response (default: 200; 204 sends no body) */
+    successStatus?: number;
+    /**
+     * Require authentication: `true` uses the default `security`, or give a requirement
+     * naming schemes with their scopes (`{ bearer: ['projects:write'] }`), or a list of
+     * alternative requirements. Enforced by the handler's `authorize` hook.
+     */
+    protect?: boolean | OpenApiSecurityRequirement | OpenApiSecurityRequirement[];
+    /** Security requirements overriding `protect` and the default (`[]` makes the endpoint public) */
+    security?: OpenApiSecurityRequirement[];
+    /**
+     * Input properties read from request headers.
+     * Either property names, or a map of property name to header name
+     * (e.g. `{ tenantId: 'X-Tenant-Id' }`).
+     */
+    headers?: ParameterMapping;
+    /** Input properties read from cookies (property names, or property -> cookie name) */
+    cookies?: ParameterMapping;
+    /** tRPC error codes this endpoint can return (documented as explicit responses) */
+    errors?: TRPC_ERROR_CODE_KEY[];
+    /**
+     * Serialization of array and object query parameters (GET only).
+     * Defaults to `form` + explode for arrays and `deepObject` for objects.
+     */
+    querySerialization?: QueryParameterSerialization & {
+      /** Per-parameter overrides */
+      parameters?: Record<string, QueryParameterSerialization>;
+    };
   };
   /** Index signature for tRPC meta compatibility */
   [key: string]: unknown;
 }
 
+/**
+ * Security requirement: scheme names (keys of `securitySchemes`) mapped to the
+ * OAuth2/OpenID Connect scopes they need (`[]` for other schemes). All schemes apply.
+ */
+export type OpenApiSecurityRequirement = Record<string, string[]>;
+
+/**
+ * Input properties mapped to another request location.
+ * A list keeps the property name; a record renames the property.
+ */
+export type ParameterMapping = string[] | Record<string, string>;
+
+/**
+ * OpenAPI query parameter style
+ */
+export type QueryParameterStyle = 'form' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject';
+
+/**
+ * Query parameter serialization (OpenAPI `style` / `explode`)
+ */
+export interface QueryParameterSerialization {
+  /** Parameter style */
+  style?: QueryParameterStyle;
+  /** Whether array items / object properties become separate parameters */
+  explode?: boolean;
+}
+
+/**
+ * Per-route limits on uploaded files
+ */
+export interface UploadLimits {
+  /** Maximum number of file parts (default: unlimited) */
+  maxFiles?: number;
+  /** Maximum size of a single file in bytes (default: unlimited) */
+  maxFileSize?: number;
+}
+
+/**
+ * A file part of a `multipart/form-data` request.
+ * Contents are buffered by the adapter (bounded by its body size limit).
+ */
+export interface UploadedFileHandle {
+  /** File name sent by the client */
+  name: string;
+  /** MIME type sent by the client (default: application/octet-stream) */
+  type: string;
+  /** Size in bytes */
+  size: number;
+  /** File contents (a Buffer with the node:http and Fastify adapters) */
+  bytes(): Uint8Array;
+  /** File contents decoded as UTF-8 */
+  text(): string;
+  /** File contents as a web stream */
+  stream(): ReadableStream<Uint8Array>;
+}
+
+/**
+ * Input property type for uploaded files.
+ * Documented as `type: string, format: binary` in multipart request bodies.
+ *
+ * @example
+ * ```typescript
+ * interface UploadAvatarInput {
+ *   userId: string;
+ *   avatar: UploadedFile;
+ *   attachments?: UploadedFile[];
+ * }
+ * ```
+ */
+export type UploadedFile = UploadedFileHandle & tags.JsonSchemaPlugin<{ format: 'binary' }>;
+
 /**
  * JSON Schema collection (version-agnostic type for Typia compatibility)
  */
@@ -48,12 +160,32 @@ export interface TypiaParser<T> {
   _typiaSchema?: JsonSchemaCollection;
   /** Marker to identify Typia parsers */
   _isTypiaParser?: true;
+  /** Mock data factory (`typia.createRandom<T>()`); one event for event parsers */
+  _typiaRandom?: () => unknown;
+}
+
+/**
+ * Selection of the documented operations; every given criterion must hold
+ */
+export interface OpenApiOperationFilterOptions {
+  /** Keep operations having at least one of these tags */
+  includeTags?: string[];
+  /** Drop operations having any of these tags */
+  excludeTags?: string[];
+  /** Keep procedures whose dotted path matches a glob (`*` within a segment, `**` across segments) */
+  includePaths?: string[];
+  /** Drop procedures whose dotted path matches a glob */
+  excludePaths?: string[];
+  /** Keep operations for which this returns true */
+  filter?: (meta: OpenApiMeta, procedurePath: string) => boolean;
+  /** Keep operations marked `internal` (default: false) */
+  includeInternal?: boolean;
 }
 
 /**
  * Options for generating OpenAPI document
  */
-export interface GenerateOpenApiDocumentOptions {
+export interface GenerateOpenApiDocumentOptions extends OpenApiOperationFilterOptions {
   /** API title */
   title: string;
   /** API version */
@@ -66,14 +198,75 @@ export interface GenerateOpenApiDocumentOptions {
   servers?: OpenAPIV3_1.ServerObject[];
   /** Security schemes */
   securitySchemes?: Record<string, OpenAPIV3_1.SecuritySchemeObject>;
-  /** Default security requirement */
-  security?: OpenAPIV3_1.SecurityRequirementObject[];
+  /** Default security requirements, applying to operations without their own */
+  security?: OpenApiSecurityRequirement[];
   /** Additional tags */
   tags?: OpenAPIV3_1.TagObject[];
-  /** Error response schema */
+  /** Error response schema (registered as `components.schemas.ErrorResponse`) */
   errorResponseSchema?: OpenAPIV3_1.SchemaObject;
+  /** Throw on invalid OpenAPI metadata instead of generating a lossy document (see `validateOpenApiRouter`) */
+  strict?: boolean;
+  /** Handling of different schemas sharing a component name (default: `rename`) */
+  componentCollisions?: ComponentCollisionMode;
+  /**
+   * Component name prefixes keyed by router namespace; the longest matching namespace wins.
+   * `{ admin: 'Admin' }` registers `User` as `AdminUser` for `admin.*` procedures.
+   */
+  componentPrefixes?: Record<string, string>;
+  /** OpenAPI version of the document (default: `3.1`) */
+  openapiVersion?: OpenApiVersion;
+  /** Called for each construct dropped or approximated when converting to OpenAPI 3.0 */
+  onConversionWarning?: (warning: OpenApiConversionWarning) => void;
+}
+
+/**
+ * Options for generating a REST client module
+ */
+export interface GenerateRestClientOptions
+  extends OpenApiOperationFilterOptions,
+    Pick<GenerateOpenApiDocumentOptions, 'strict' | 'componentCollisions' | 'componentPrefixes'> {
+  /** Base URL used when the client is created without one (default: '') */
+  baseUrl?: string;
+  /** Name of the generated factory function (default: 'createClient') */
+  clientName?: string;
 }
 
+/**
+ * Configuration file of the `trpc-typia-openapi` command (JSON, or a CommonJS module
+ * exporting it). Command-line flags take precedence.
+ */
+export interface OpenApiCliConfig extends Partial<GenerateOpenApiDocumentOptions> {
+  /** Compiled module exporting the router, relative to the working directory */
+  router?: string;
+  /** Name of the router export (default: `appRouter`, then `router`, then `default`) */
+  export?: string;
+  /** Path of the document written by `generate` and compared by `check` */
+  out?: string;
+  /** Document format (default: from the `out` extension, else `json`) */
+  format?: 'json' | 'yaml';
+}
+
+/**
+ * Supported OpenAPI document versions: `3.1` (3.1.0) or `3.0` (3.0.3)
+ */
+export type OpenApiVersion = '3.0' | '3.1';
+
+/**
+ * A part of the document that OpenAPI 3.0 cannot express
+ */
+export interface OpenApiConversionWarning {
+  /** JSON pointer of the affected location (e.g. `#/components/schemas/User/prefixItems`) */
+  pointer: string;
+  message: string;
+}
+
+/**
+ * What to do when two different schemas claim the same component name:
+ * `rename` suffixes the later one (`User_2`) and rewrites its `$ref`s,
+ * `error` throws a `ComponentCollisionError`
+ */
+export type ComponentCollisionMode = 'rename' | 'error';
+
 /**
  * Options for HTTP handler
  */
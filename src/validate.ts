@@ -0,0 +1,203 @@
+import type { AnyRouter } from '@trpc/server';
+import type { HttpMethod } from './types';
+import { getSchemaFromParser } from './procedure';
+import type { ComponentSchemas, JsonSchema } from './schema';
+import { getInputObjectSchema, resolveSchema } from './schema';
+import { getMappedParameters, getMappedPropertyNames } from './parameters';
+import type { ProcedureDef } from './router';
+import { collectOpenApiProcedures } from './router';
+
+/**
+ * Kind of problem found in `meta.openapi`
+ */
+export type OpenApiRouterIssueCode =
+  | 'INVALID_PATH'
+  | 'UNKNOWN_PATH_PARAMETER'
+  | 'INVALID_PATH_PARAMETER'
+  | 'UNKNOWN_MAPPED_PARAMETER'
+  | 'NON_OBJECT_INPUT'
+  | 'DUPLICATE_ROUTE'
+  | 'DUPLICATE_OPERATION_ID'
+  | 'UNSUPPORTED_PROCEDURE_TYPE';
+
+/**
+ * A single problem in a procedure's OpenAPI metadata
+ */
+export interface OpenApiRouterIssue {
+  code: OpenApiRouterIssueCode;
+  /** Dotted tRPC procedure path */
+  procedurePath: string;
+  message: string;
+}
+
+/**
+ * Error aggregating every problem found by {@link validateOpenApiRouter}
+ */
+export class OpenApiRouterValidationError extends Error {
+  readonly issues: OpenApiRouterIssue[];
+
+  constructor(issues: OpenApiRouterIssue[]) {
+    const lines = issues.map((issue) => `  - ${issue.procedurePath}: ${issue.message}`);
+    super(`Invalid OpenAPI metadata (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n${lines.join('\n')}`);
+    this.name = 'OpenApiRouterValidationError';
+    this.issues = issues;
+  }
+}
+
+const PARAM_PATTERN = /\{([^}]+)\}/g;
+const PATH_PARAMETER_TYPES = ['string', 'number', 'integer'];
+
+/**
+ * OpenAPI operationId of a procedure (dots become underscores)
+ */
+export function getOperationId(procedurePath: string): string {
+  return procedurePath.replace(/\./g, '_');
+}
+
+/**
+ * Check whether a schema only admits strings or numbers (including enums and unions of them)
+ */
+function isScalarSchema(schema: JsonSchema | undefined, components: ComponentSchemas): boolean {
+  const resolved = resolveSchema(schema, components);
+  if (!resolved) return false;
+
+  const alternatives = (resolved.oneOf || resolved.anyOf) as JsonSchema[] | undefined;
+  if (alternatives) {
+    return alternatives.every((alternative) => isScalarSchema(alternative, components));
+  }
+
+  if (resolved.nullable === true) return false;
+
+  if ('const' in resolved) {
+    return typeof resolved.const === 'string' || typeof resolved.const === 'number';
+  }
+
+  return typeof resolved.type === 'string' && PATH_PARAMETER_TYPES.includes(resolved.type);
+}
+
+/**
+ * Check the metadata of one procedure against its input schema
+ */
+function checkProcedure(
+  procedurePath: string,
+  procedure: ProcedureDef,
+  httpMethod: HttpMethod,
+  report: (code: OpenApiRouterIssueCode, message: string) => void
+): void {
+  const meta = procedure._def.meta!;
+  const { path } = meta.openapi!;
+  const route = `${httpMethod} ${path}`;
+
+  // Subscriptions are served as SSE, which EventSource only requests with GET
+  if (procedure._def.type === 'subscription' && httpMethod !== 'GET') {
+    report('UNSUPPORTED_PROCEDURE_TYPE', `${route} is a subscription and must use GET (served as Server-Sent Events)`);
+  }
+
+  if (!path.startsWith('/')) {
+    report('INVALID_PATH', `path "${path}" must start with "/"`);
+  }
+
+  const pathParams = [...path.matchAll(PARAM_PATTERN)].map((match) => match[1]);
+  const seenParams = new Set<string>();
+  for (const param of pathParams) {
+    if (seenParams.has(param)) {
+      report('INVALID_PATH', `${route} declares path parameter "${param}" more than once`);
+    }
+    seenParams.add(param);
+  }
+
+  const inputParser = procedure._def.inputs?.[0];
+  // Without a Typia schema there is nothing to check the metadata against
+  const hasSchema = inputParser !== undefined && getSchemaFromParser(inputParser) !== undefined;
+  const inputObject = hasSchema ? getInputObjectSchema(inputParser) : undefined;
+
+  if (hasSchema && !inputObject && (httpMethod === 'GET' || pathParams.length > 0)) {
+    report(
+      'NON_OBJECT_INPUT',
+      `${route} has a non-object input, so its ${httpMethod === 'GET' ? 'query' : 'path'} parameters cannot be mapped`
+    );
+  }
+
+  if (inputParser === undefined || inputObject) {
+    for (const param of seenParams) {
+      const propSchema = inputObject?.properties[param];
+      if (!propSchema) {
+        report('UNKNOWN_PATH_PARAMETER', `${route} declares "{${param}}" but the input has no "${param}" property`);
+        continue;
+      }
+      if (!inputObject!.required.includes(param)) {
+        report('INVALID_PATH_PARAMETER', `path parameter "${param}" of ${route} must be a required input property`);
+      }
+      if (!isScalarSchema(propSchema, inputObject!.components)) {
+        report('INVALID_PATH_PARAMETER', `path parameter "${param}" of ${route} must be a string or number`);
+      }
+    }
+  }
+
+  if (inputObject) {
+    for (const property of getMappedPropertyNames(getMappedParameters(meta))) {
+      if (!(property in inputObject.properties)) {
+        report('UNKNOWN_MAPPED_PARAMETER', `${route} maps "${property}" to a header or cookie but the input has no such property`);
+      }
+    }
+  }
+}
+
+/**
+ * Collect every problem in the router's OpenAPI metadata
+ */
+export function getOpenApiRouterIssues(router: AnyRouter): OpenApiRouterIssue[] {
+  const issues: OpenApiRouterIssue[] = [];
+  const routes = new Map<string, string>();
+  const operationIds = new Map<string, string>();
+
+  for (const { procedurePath, procedure } of collectOpenApiProcedures(router)) {
+    const report = (code: OpenApiRouterIssueCode, message: string) => {
+      issues.push({ code, procedurePath, message });
+    };
+
+    const { method, path } = procedure._def.meta!.openapi!;
+    const httpMethod = method || (procedure._def.type === 'mutation' ? 'POST' : 'GET');
+
+    checkProcedure(procedurePath, procedure, httpMethod, report);
+
+    // Parameter names do not matter: /x/{a} and /x/{b} are the same route
+    const routeKey = `${httpMethod} ${path.replace(PARAM_PATTERN, '{}')}`;
+    const existingRoute = routes.get(routeKey);
+    if (existingRoute) {
+      report('DUPLICATE_ROUTE', `${httpMethod} ${path} is already used by ${existingRoute}`);
+    } else {
+      routes.set(routeKey, procedurePath);
+    }
+
+    const operationId = getOperationId(procedurePath);
+    const existingOperation = operationIds.get(operationId);
+    if (existingOperation) {
+      report('DUPLICATE_OPERATION_ID', `operationId "${operationId}" is already used by ${existingOperation}`);
+    } else {
+      operationIds.set(operationId, procedurePath);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate the router's OpenAPI metadata, throwing one
+ * {@link OpenApiRouterValidationError} listing every problem.
+ * Run automatically by `generateOpenApiDocument` and `createOpenApiHandler` with `strict: true`.
+ *
+ * @example
+ * ```typescript
+ * import { validateOpenApiRouter } from 'trpc-typia-openapi';
+ *
+ * // In a test or at startup
+ * validateOpenApiRouter(appRouter);
+ * ```
+ */
+export function validateOpenApiRouter(router: AnyRouter): void {
+  const issues = getOpenApiRouterIssues(router);
+  if (issues.length > 0) {
+    throw new OpenApiRouterValidationError(issues);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Minimal YAML serializer for JSON-compatible values (OpenAPI documents).
+ * Emits block style; strings are quoted whenever plain style could be misread.
+ */
+
+// No leading `.`, which would let `.inf` and `.nan` read as floats
+const PLAIN_STRING = /^[A-Za-z_/$][\w ./$-]*$/;
+// YAML 1.1 booleans and null, which older parsers still resolve
+const RESERVED = /^(true|false|yes|no|y|n|on|off|null|~)$/i;
+
+/**
+ * Format a scalar value
+ */
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '.nan';
+  if (typeof value === 'boolean') return String(value);
+
+  const text = String(value);
+  if (text !== '' && PLAIN_STRING.test(text) && !RESERVED.test(text) && !text.endsWith(' ')) {
+    return text;
+  }
+  return JSON.stringify(text);
+}
+
+/**
+ * Check whether a value is serialized inline (scalar or empty collection)
+ */
+function isInline(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object' && value !== null) return Object.keys(value).length === 0;
+  return true;
+}
+
+/**
+ * Format an inline value
+ */
+function formatInline(value: unknown): string {
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object' && value !== null) return '{}';
+  return formatScalar(value);
+}
+
+/**
+ * Serialize a value at the given indentation, returning lines
+ */
+function serialize(value: unknown, indent: string): string[] {
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isInline(item)) {
+        lines.push(`${indent}- ${formatInline(item)}`);
+        continue;
+      }
+      // First line of the nested block shares the dash
+      const nested = serialize(item, `${indent}  `);
+      lines.push(`${indent}- ${nested[0].slice(indent.length + 2)}`, ...nested.slice(1));
+    }
+    return lines;
+  }
+
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    if (item === undefined) continue;
+    if (isInline(item)) {
+      lines.push(`${indent}${formatScalar(key)}: ${formatInline(item)}`);
+    } else {
+      lines.push(`${indent}${formatScalar(key)}:`, ...serialize(item, `${indent}  `));
+    }
+  }
+  return lines;
+}
+
+/**
+ * Serialize a JSON-compatible value to YAML
+ */
+export function toYaml(value: unknown): string {
+  if (isInline(value)) return `${formatInline(value)}\n`;
+  return `${serialize(value, '').join('\n')}\n`;
+}
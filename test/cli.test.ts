@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from '../src/cli';
+
+const routerModule = join(__dirname, 'fixtures.js');
+const info = ['--title', 'Items', '--version', '1.0.0'];
+
+/**
+ * Run the CLI, capturing what it writes to stdout and stderr
+ */
+async function run(argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  const output = { stdout: '', stderr: '' };
+  const original = { stdout: process.stdout.write, stderr: process.stderr.write };
+  process.stdout.write = ((chunk: string) => ((output.stdout += chunk), true)) as typeof process.stdout.write;
+  process.stderr.write = ((chunk: string) => ((output.stderr += chunk), true)) as typeof process.stderr.write;
+  try {
+    return { code: await runCli(argv), ...output };
+  } finally {
+    process.stdout.write = original.stdout;
+    process.stderr.write = original.stderr;
+  }
+}
+
+test('generates the document to stdout', async () => {
+  const { code, stdout } = await run(['generate', routerModule, ...info]);
+  assert.equal(code, 0);
+  const document = JSON.parse(stdout) as { info: { title: string }; paths: object };
+  assert.equal(document.info.title, 'Items');
+  assert.ok('/items/{id}' in document.paths);
+});
+
+test('writes YAML when --out ends in .yaml', async () => {
+  const out = join(mkdtempSync(join(tmpdir(), 'openapi-cli-')), 'openapi.yaml');
+  const { code } = await run(['generate', routerModule, ...info, '--out', out]);
+  assert.equal(code, 0);
+  assert.match(readFileSync(out, 'utf8'), /^openapi: "3\.1\.0"\ninfo:\n {2}title: Items\n/);
+});
+
+test('checks the committed document', async () => {
+  const out = join(mkdtempSync(join(tmpdir(), 'openapi-cli-')), 'openapi.json');
+  assert.equal((await run(['check', routerModule, ...info, '--out', out])).code, 1);
+
+  await run(['generate', routerModule, ...info, '--out', out]);
+  assert.equal((await run(['check', routerModule, ...info, '--out', out])).code, 0);
+
+  const stale = await run(['check', routerModule, '--title', 'Items', '--version', '2.0.0', '--out', out]);
+  assert.equal(stale.code, 1);
+  assert.match(stale.stderr, /out of date/);
+});
+
+test('prints the route table', async () => {
+  const { code, stdout } = await run(['routes', routerModule]);
+  assert.equal(code, 0);
+  assert.equal(stdout.split('\n')[0], 'GET     /items/{id}        items.get');
+  assert.match(stdout, /^DELETE {2}\/items\/\{id\} {8}items\.remove$/m);
+});
+
+test('fails diff on breaking changes only', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'openapi-cli-'));
+  const before = join(dir, 'before.json');
+  const after = join(dir, 'after.json');
+  await run(['generate', routerModule, ...info, '--out', before]);
+
+  const document = JSON.parse(readFileSync(before, 'utf8')) as { paths: Record<string, unknown> };
+  delete document.paths['/items/{id}/owner'];
+  writeFileSync(after, JSON.stringify(document));
+
+  const breaking = await run(['diff', before, after]);
+  assert.equal(breaking.code, 1);
+  assert.match(breaking.stdout, /^breaking/);
+  assert.equal((await run(['diff', before, after, '--fail-on', 'none'])).code, 0);
+  assert.equal((await run(['diff', after, before])).code, 0);
+});
+
+test('exits with 2 on usage errors', async () => {
+  for (const argv of [
+    ['generate', routerModule],
+    ['generate', routerModule, ...info, '--format', 'xml'],
+    ['diff', 'only-one.json'],
+    ['publish', routerModule],
+    ['generate', '--unknown-flag'],
+  ]) {
+    const { code, stderr } = await run(argv);
+    assert.equal(code, 2, argv.join(' '));
+    assert.match(stderr, /Usage: trpc-typia-openapi/);
+  }
+});
+
+test('prints usage with --help', async () => {
+  const { code, stdout } = await run(['--help']);
+  assert.equal(code, 0);
+  assert.match(stdout, /^Usage:/);
+});
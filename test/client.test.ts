@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import ts from 'typescript';
+import { createFetchHandler, generateRestClient } from '../src';
+import { appRouter } from './fixtures';
+
+const source = generateRestClient(appRouter, { baseUrl: '/api' });
+
+/**
+ * Compile and load the generated client, answering its requests with the fetch adapter
+ */
+function loadClient(): Record<string, (input?: unknown) => Promise<unknown>> {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+  const exports: Record<string, unknown> = {};
+  new Function('exports', outputText)(exports);
+
+  const handler = createFetchHandler({ router: appRouter, createContext: () => ({}), basePath: '/api' });
+  const createClient = exports.createClient as (options: object) => Record<string, (input?: unknown) => Promise<unknown>>;
+  return createClient({
+    baseUrl: 'http://localhost/api',
+    fetch: (url: string, init: RequestInit) => handler(new Request(url, init)),
+  });
+}
+
+test('emits one method per operation, sorted by procedure path', () => {
+  const methods = [...source.matchAll(/^ {4}async (\w+)\(/gm)].map((match) => match[1]);
+  assert.deepEqual(methods, ['items_create', 'items_get', 'items_list', 'items_owner', 'items_remove', 'items_touch']);
+});
+
+test('emits input interfaces and typed signatures', () => {
+  assert.match(source, /^export interface GetItemInput \{\n {2}id: number;\n {2}verbose\?: boolean;\n\}/m);
+  assert.match(source, /async items_list\(input: ListItemsInput = \{\}, init\?: RequestInit\): Promise<unknown>/);
+  assert.match(source, /async items_remove\(input: \{\n\s+id: number;\n\s+\}, init\?: RequestInit\): Promise<void>/);
+  assert.match(source, /^const DEFAULT_BASE_URL = "\/api";$/m);
+});
+
+test('calls the API through path, query, header and cookie parameters', async () => {
+  const client = loadClient();
+  assert.deepEqual(await client.items_get({ id: 3, verbose: true }), { id: 3, name: 'item 3' });
+  assert.deepEqual(await client.items_list({ q: 'a b', tags: ['x', 'y'], filter: { status: 'open' } }), {
+    q: 'a b',
+    tags: ['x', 'y'],
+    filter: { status: 'open' },
+  });
+  assert.deepEqual(await client.items_owner({ id: 4, tenantId: 'acme', session: 'abc' }), {
+    id: 4,
+    tenantId: 'acme',
+    session: 'abc',
+  });
+  assert.deepEqual(await client.items_create({ name: 'pear' }), { id: 1, name: 'pear' });
+  assert.equal(await client.items_remove({ id: 4 }), undefined);
+});
+
+test('throws ApiError for failed requests', async () => {
+  const client = loadClient();
+  await assert.rejects(client.items_get({ id: 'x' }), { name: 'ApiError', status: 400 });
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { coerceParameter } from '../src/coerce';
+import type { ComponentSchemas } from '../src/schema';
+
+const components: ComponentSchemas = {
+  Status: { type: 'string', enum: ['open', 'closed'] },
+};
+
+const coerce = (raw: Parameters<typeof coerceParameter>[0], schema: unknown) =>
+  coerceParameter(raw, schema, components);
+
+test('coerces integers, numbers and booleans', () => {
+  assert.deepEqual(coerce('42', { type: 'integer' }), { success: true, value: 42 });
+  assert.deepEqual(coerce('-1.5', { type: 'number' }), { success: true, value: -1.5 });
+  assert.deepEqual(coerce('true', { type: 'boolean' }), { success: true, value: true });
+  assert.deepEqual(coerce('1.5', { type: 'integer' }), { success: false, expected: 'integer' });
+  assert.deepEqual(coerce(' ', { type: 'number' }), { success: false, expected: 'number' });
+  assert.deepEqual(coerce('yes', { type: 'boolean' }), { success: false, expected: 'boolean' });
+});
+
+test('prefers numbers over strings in unions', () => {
+  assert.deepEqual(coerce('5', { oneOf: [{ type: 'string' }, { type: 'number' }] }), { success: true, value: 5 });
+  assert.deepEqual(coerce('five', { type: ['number', 'string'] }), { success: true, value: 'five' });
+});
+
+test('handles 3.0 nullable and null members', () => {
+  assert.deepEqual(coerce('null', { type: 'integer', nullable: true }), { success: true, value: null });
+  assert.deepEqual(coerce('3', { type: 'integer', nullable: true }), { success: true, value: 3 });
+});
+
+test('matches const and enum literals through refs', () => {
+  assert.deepEqual(coerce('1', { const: 1 }), { success: true, value: 1 });
+  assert.deepEqual(coerce('open', { $ref: '#/components/schemas/Status' }), { success: true, value: 'open' });
+  assert.deepEqual(coerce('gone', { $ref: '#/components/schemas/Status' }), {
+    success: false,
+    expected: '"open" | "closed"',
+  });
+});
+
+test('coerces array items and reports the failing item type', () => {
+  assert.deepEqual(coerce(['1', '2'], { type: 'array', items: { type: 'integer' } }), {
+    success: true,
+    value: [1, 2],
+  });
+  assert.deepEqual(coerce('7', { type: 'array', items: { type: 'integer' } }), { success: true, value: [7] });
+  assert.deepEqual(coerce(['1', 'x'], { type: 'array', items: { type: 'integer' } }), {
+    success: false,
+    expected: 'array of integer',
+  });
+});
+
+test('coerces object properties', () => {
+  const schema = {
+    type: 'object',
+    properties: { page: { type: 'integer' }, status: { $ref: '#/components/schemas/Status' } },
+  };
+  assert.deepEqual(coerce({ page: '2', status: 'closed' }, schema), {
+    success: true,
+    value: { page: 2, status: 'closed' },
+  });
+  assert.deepEqual(coerce('page', schema), { success: false, expected: 'object' });
+});
+
+test('passes values without a schema through', () => {
+  assert.deepEqual(coerce('anything', undefined), { success: true, value: 'anything' });
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ComponentCollisionError } from '../src';
+import { createComponentRegistry, getComponentPrefix } from '../src/components';
+
+const user = { type: 'object', properties: { id: { type: 'string' } } };
+const otherUser = { type: 'object', properties: { name: { type: 'string' } } };
+
+test('stores identical components once', () => {
+  const registry = createComponentRegistry();
+  registry.add({ User: user });
+  const rewrite = registry.add({ User: { ...user } });
+  assert.deepEqual(Object.keys(registry.schemas), ['User']);
+  assert.deepEqual(rewrite({ $ref: '#/components/schemas/User' }), { $ref: '#/components/schemas/User' });
+});
+
+test('renames colliding components and rewrites their refs', () => {
+  const registry = createComponentRegistry();
+  registry.add({ User: user });
+  const rewrite = registry.add({
+    User: otherUser,
+    Team: { type: 'object', properties: { owner: { $ref: '#/components/schemas/User' } } },
+  });
+
+  assert.deepEqual(registry.schemas.User_2, otherUser);
+  assert.deepEqual(registry.schemas.Team, {
+    type: 'object',
+    properties: { owner: { $ref: '#/components/schemas/User_2' } },
+  });
+  assert.deepEqual(rewrite({ items: { $ref: '#/components/schemas/User' } }), {
+    items: { $ref: '#/components/schemas/User_2' },
+  });
+});
+
+test('does not rename onto a name used in the same batch', () => {
+  const registry = createComponentRegistry();
+  registry.add({ User: user });
+  const rewrite = registry.add({ User: otherUser, User_2: { type: 'string' } });
+
+  assert.deepEqual(registry.schemas.User_2, { type: 'string' });
+  assert.deepEqual(registry.schemas.User_3, otherUser);
+  assert.deepEqual(rewrite({ $ref: '#/components/schemas/User' }), { $ref: '#/components/schemas/User_3' });
+});
+
+test('never hands out reserved names', () => {
+  const registry = createComponentRegistry('rename', ['Error']);
+  registry.add({ Error: user });
+  assert.deepEqual(Object.keys(registry.schemas), ['Error_2']);
+});
+
+test('throws on collisions in error mode', () => {
+  const registry = createComponentRegistry('error');
+  registry.add({ User: user });
+  assert.throws(() => registry.add({ User: otherUser }), ComponentCollisionError);
+});
+
+test('applies the longest matching namespace prefix', () => {
+  const prefixes = { billing: 'Billing', 'billing.admin': 'BillingAdmin' };
+  assert.equal(getComponentPrefix('billing.invoices.get', prefixes), 'Billing');
+  assert.equal(getComponentPrefix('billing.admin.get', prefixes), 'BillingAdmin');
+  assert.equal(getComponentPrefix('billingx.get', prefixes), '');
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { initTRPC } from '@trpc/server';
+import { createOpenApiHandler, type OpenApiMeta } from '../src';
+import { getMediaType, matchesMediaType, negotiateMediaType } from '../src/content-type';
+
+test('reads the bare media type of a header', () => {
+  assert.equal(getMediaType('Application/JSON; charset=utf-8'), 'application/json');
+  assert.equal(getMediaType(['text/csv', 'text/plain']), 'text/csv');
+  assert.equal(getMediaType(''), undefined);
+});
+
+test('matches wildcard ranges', () => {
+  assert.equal(matchesMediaType('text/csv', 'text/*'), true);
+  assert.equal(matchesMediaType('text/csv', '*/*'), true);
+  assert.equal(matchesMediaType('application/json', 'text/*'), false);
+});
+
+test('negotiates by quality, then by declaration order', () => {
+  const available = ['application/json', 'text/csv'];
+  assert.equal(negotiateMediaType(undefined, available), 'application/json');
+  assert.equal(negotiateMediaType('text/csv', available), 'text/csv');
+  assert.equal(negotiateMediaType('application/json;q=0.5, text/*', available), 'text/csv');
+  assert.equal(negotiateMediaType('*/*', available), 'application/json');
+  assert.equal(negotiateMediaType('text/*, text/csv;q=0', available), undefined);
+  assert.equal(negotiateMediaType('image/png', available), undefined);
+});
+
+const t = initTRPC.meta<OpenApiMeta>().create();
+
+const router = t.router({
+  report: t.procedure
+    .meta({ openapi: { method: 'GET', path: '/report', responseContentType: ['application/json', 'text/csv'] } })
+    .query(() => 'id\n1\n'),
+});
+
+const handler = createOpenApiHandler({ router, createContext: () => ({}) });
+
+test('answers with the negotiated response type', async () => {
+  const csv = await handler({ method: 'GET', url: '/report', headers: { accept: 'text/csv' } });
+  assert.equal(csv.status, 200);
+  assert.equal(csv.headers['Content-Type'], 'text/csv');
+  assert.equal(csv.body, 'id\n1\n');
+
+  const json = await handler({ method: 'GET', url: '/report', headers: {} });
+  assert.equal(json.headers['Content-Type'], 'application/json');
+  assert.equal(json.body, '"id\\n1\\n"');
+});
+
+test('answers 406 when no declared type is acceptable', async () => {
+  const response = await handler({ method: 'GET', url: '/report', headers: { accept: 'application/xml' } });
+  assert.equal(response.status, 406);
+  assert.equal((response.body as { code: string }).code, 'NOT_ACCEPTABLE');
+});
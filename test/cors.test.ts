@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createOpenApiHandler } from '../src';
+import { appRouter } from './fixtures';
+
+const handler = createOpenApiHandler({
+  router: appRouter,
+  createContext: () => ({}),
+  cors: {
+    origin: ['https://app.example.com'],
+    credentials: true,
+    exposedHeaders: ['Location'],
+    maxAge: 600,
+  },
+});
+
+test('answers preflight requests with the path methods', async () => {
+  const response = await handler({
+    method: 'OPTIONS',
+    url: '/items/7',
+    headers: {
+      origin: 'https://app.example.com',
+      'access-control-request-method': 'DELETE',
+      'access-control-request-headers': 'content-type',
+    },
+  });
+  assert.equal(response.status, 204);
+  assert.deepEqual(response.headers, {
+    Allow: 'GET, DELETE, HEAD, OPTIONS',
+    'Access-Control-Allow-Origin': 'https://app.example.com',
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Allow-Methods': 'GET, DELETE, HEAD, OPTIONS',
+    'Access-Control-Allow-Headers': 'content-type',
+    'Access-Control-Max-Age': '600',
+    Vary: 'Origin, Access-Control-Request-Headers',
+  });
+});
+
+test('adds CORS headers to actual responses from allowed origins', async () => {
+  const response = await handler({ method: 'GET', url: '/items/7', headers: { origin: 'https://app.example.com' } });
+  assert.equal(response.status, 200);
+  assert.equal(response.headers['Access-Control-Allow-Origin'], 'https://app.example.com');
+  assert.equal(response.headers['Access-Control-Expose-Headers'], 'Location');
+});
+
+test('leaves responses to other origins without CORS headers', async () => {
+  const response = await handler({ method: 'GET', url: '/items/7', headers: { origin: 'https://evil.example.com' } });
+  assert.equal(response.status, 200);
+  assert.equal(response.headers['Access-Control-Allow-Origin'], undefined);
+});
@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffOpenApiDocuments } from '../src';
+
+type Document = Parameters<typeof diffOpenApiDocuments>[0];
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Build a document with one `POST /users/{id}` operation around the given pieces
+ */
+function createDocument(opts: {
+  path?: string;
+  parameters?: JsonObject[];
+  request?: JsonObject;
+  response?: JsonObject;
+  deprecated?: boolean;
+  extraPaths?: JsonObject;
+  roles?: string[];
+}): Document {
+  const {
+    path = '/users/{id}',
+    parameters = [{ name: path.match(/\{(\w+)\}/)![1], in: 'path', required: true, schema: { type: 'string' } }],
+    request = { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+    response = { $ref: '#/components/schemas/User' },
+    deprecated,
+    extraPaths = {},
+    roles = ['admin', 'user'],
+  } = opts;
+
+  return {
+    openapi: '3.1.0',
+    info: { title: 'Test', version: '1.0.0' },
+    paths: {
+      [path]: {
+        post: {
+          operationId: 'users_update',
+          deprecated,
+          parameters,
+          requestBody: { required: true, content: { 'application/json': { schema: request } } },
+          responses: { 200: { description: 'OK', content: { 'application/json': { schema: response } } } },
+        },
+      },
+      ...extraPaths,
+    },
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          properties: { id: { type: 'string' }, role: { type: 'string', enum: roles } },
+          required: ['id', 'role'],
+        },
+      },
+    },
+  } as Document;
+}
+
+const summarize = (before: Document, after: Document) =>
+  diffOpenApiDocuments(before, after).map(({ code, severity }) => `${code} ${severity}`);
+
+test('reports nothing for identical documents', () => {
+  assert.deepEqual(diffOpenApiDocuments(createDocument({}), createDocument({})), []);
+});
+
+test('classifies removed and added operations', () => {
+  const extraPaths = {
+    '/health': { get: { responses: { 200: { description: 'OK' } } } },
+  };
+  assert.deepEqual(summarize(createDocument({ extraPaths }), createDocument({})), ['OPERATION_REMOVED breaking']);
+  assert.deepEqual(summarize(createDocument({}), createDocument({ extraPaths })), ['OPERATION_ADDED non-breaking']);
+});
+
+test('treats renamed path parameters as breaking', () => {
+  const changes = diffOpenApiDocuments(createDocument({}), createDocument({ path: '/users/{userId}' }));
+  assert.deepEqual(
+    changes.map(({ code, severity, operation }) => ({ code, severity, operation })),
+    [{ code: 'PATH_PARAMETER_RENAMED', severity: 'breaking', operation: 'POST /users/{userId}' }]
+  );
+});
+
+test('classifies request changes by direction', () => {
+  const optionalParameter = { name: 'dryRun', in: 'query', schema: { type: 'boolean' } };
+  const requiredParameter = { ...optionalParameter, required: true };
+  const withParameter = (parameter: JsonObject) =>
+    createDocument({
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }, parameter],
+    });
+
+  assert.deepEqual(summarize(createDocument({}), withParameter(optionalParameter)), ['PARAMETER_ADDED non-breaking']);
+  assert.deepEqual(summarize(createDocument({}), withParameter(requiredParameter)), ['PARAMETER_ADDED breaking']);
+
+  const request = (required: string[]) => ({
+    type: 'object',
+    properties: { name: { type: 'string' }, email: { type: 'string' } },
+    required,
+  });
+  assert.deepEqual(summarize(createDocument({}), createDocument({ request: request(['name']) })), [
+    'PROPERTY_ADDED non-breaking',
+  ]);
+  assert.deepEqual(summarize(createDocument({}), createDocument({ request: request(['name', 'email']) })), [
+    'PROPERTY_ADDED breaking',
+  ]);
+});
+
+test('classifies enum changes inside referenced response schemas', () => {
+  const withRoles = (roles: string[]) => createDocument({ roles });
+
+  const widened = diffOpenApiDocuments(withRoles(['admin', 'user']), withRoles(['admin', 'user', 'guest']));
+  assert.deepEqual(
+    widened.map(({ code, severity, pointer }) => ({ code, severity, pointer })),
+    [{ code: 'ENUM_CHANGED', severity: 'breaking', pointer: '/components/schemas/User/properties/role' }]
+  );
+  assert.deepEqual(summarize(withRoles(['admin', 'user']), withRoles(['admin'])), ['ENUM_CHANGED non-breaking']);
+});
+
+test('reports type changes as breaking and deprecations separately', () => {
+  const response = { type: 'string' };
+  assert.deepEqual(summarize(createDocument({}), createDocument({ response })), ['TYPE_CHANGED breaking']);
+  assert.deepEqual(summarize(createDocument({}), createDocument({ deprecated: true })), ['DEPRECATED deprecation']);
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Fastify from 'fastify';
+import { fastifyOpenApiPlugin } from '../src';
+import { appRouter } from './fixtures';
+
+async function createServer() {
+  const server = Fastify();
+  await server.register(fastifyOpenApiPlugin, {
+    router: appRouter,
+    createContext: () => ({}),
+    basePath: '/api',
+    docs: { title: 'Items', version: '1.0.0' },
+  });
+  return server;
+}
+
+test('serves routes through the plugin', async () => {
+  const server = await createServer();
+  const response = await server.inject({ method: 'GET', url: '/api/items/2?verbose=true' });
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(response.json(), { id: 2, name: 'item 2' });
+  await server.close();
+});
+
+test('serves the document as JSON and YAML under the base path', async () => {
+  const server = await createServer();
+
+  const json = await server.inject({ method: 'GET', url: '/api/openapi.json' });
+  assert.equal(json.statusCode, 200);
+  assert.match(json.headers['content-type'] as string, /^application\/json/);
+  const document = json.json() as { info: { title: string }; servers: Array<{ url: string }>; paths: object };
+  assert.equal(document.info.title, 'Items');
+  assert.deepEqual(document.servers, [{ url: '/api' }]);
+  assert.ok('/items/{id}' in document.paths);
+
+  const yaml = await server.inject({ method: 'GET', url: '/api/openapi.yaml' });
+  assert.match(yaml.headers['content-type'] as string, /^application\/yaml/);
+  assert.match(yaml.body, /^openapi: "3\.1\.0"$/m);
+  assert.match(yaml.body, /^ {2}title: Items$/m);
+  await server.close();
+});
+
+test('serves the reference page pointing at the JSON document', async () => {
+  const server = await createServer();
+  const response = await server.inject({ method: 'GET', url: '/api/docs' });
+  assert.equal(response.statusCode, 200);
+  assert.match(response.headers['content-type'] as string, /^text\/html/);
+  assert.match(response.body, /\/api\/openapi\.json/);
+  await server.close();
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFetchHandler } from '../src';
+import { appRouter } from './fixtures';
+
+const handler = createFetchHandler({
+  router: appRouter,
+  createContext: ({ req }) => ({ userAgent: req.headers.get('user-agent') }),
+  basePath: '/api',
+});
+
+test('serves a query through Request and Response', async () => {
+  const response = await handler(new Request('http://localhost/api/items/5?verbose=true'));
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get('content-type') ?? '', /application\/json/);
+  assert.deepEqual(await response.json(), { id: 5, name: 'item 5' });
+});
+
+test('parses JSON bodies', async () => {
+  const response = await handler(
+    new Request('http://localhost/api/items', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'pear' }),
+    })
+  );
+  assert.equal(response.status, 201);
+  assert.deepEqual(await response.json(), { id: 1, name: 'pear' });
+});
+
+test('answers 400 for malformed JSON', async () => {
+  const response = await handler(
+    new Request('http://localhost/api/items', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"name":',
+    })
+  );
+  assert.equal(response.status, 400);
+  assert.equal(((await response.json()) as { code: string }).code, 'PARSE_ERROR');
+});
+
+test('answers 415 for a text body on a JSON route', async () => {
+  const response = await handler(
+    new Request('http://localhost/api/items', { method: 'POST', body: 'pear' })
+  );
+  assert.equal(response.status, 415);
+});
+
+test('answers HEAD without a body', async () => {
+  const response = await handler(new Request('http://localhost/api/items/5', { method: 'HEAD' }));
+  assert.equal(response.status, 200);
+  assert.equal(await response.text(), '');
+});
+
+test('answers 404 outside the base path', async () => {
+  const response = await handler(new Request('http://localhost/other/items/5'));
+  assert.equal(response.status, 404);
+  assert.equal(((await response.json()) as { code: string }).code, 'NOT_FOUND');
+});
+
+test('answers 404 for unknown paths before reading the body', async () => {
+  const response = await handler(
+    new Request('http://localhost/api/unknown', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"name":',
+    })
+  );
+  assert.equal(response.status, 404);
+  assert.equal(((await response.json()) as { code: string }).code, 'NOT_FOUND');
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { initTRPC } from '@trpc/server';
+import typia from 'typia';
+import { createOpenApiHandler, createParser, generateOpenApiDocument, type OpenApiMeta } from '../src';
+import { pruneComponentSchemas } from '../src/components';
+
+const t = initTRPC.meta<OpenApiMeta>().create();
+
+interface PublicUser {
+  id: string;
+}
+
+interface AuditEntry {
+  actor: string;
+  action: string;
+}
+
+const router = t.router({
+  users: t.router({
+    get: t.procedure
+      .meta({ openapi: { method: 'GET', path: '/users/{id}', tags: ['users'] } })
+      .input(createParser(typia.createAssert<PublicUser>(), typia.json.schemas<[PublicUser], '3.1'>()))
+      .output(createParser(typia.createAssert<PublicUser>(), typia.json.schemas<[PublicUser], '3.1'>()))
+      .query(({ input }) => input),
+    export: t.procedure
+      .meta({ openapi: { method: 'GET', path: '/users/export', tags: ['users', 'bulk'] } })
+      .query(() => []),
+  }),
+  admin: t.router({
+    audit: t.procedure
+      .meta({ openapi: { method: 'GET', path: '/admin/audit', tags: ['admin'], internal: true } })
+      .output(createParser(typia.createAssert<AuditEntry[]>(), typia.json.schemas<[AuditEntry[]], '3.1'>()))
+      .query(() => [{ actor: 'root', action: 'login' }]),
+  }),
+});
+
+const options = {
+  title: 'Users',
+  version: '1.0.0',
+  baseUrl: '/',
+  tags: [{ name: 'users' }, { name: 'bulk' }, { name: 'admin' }],
+};
+
+const operations = (document: ReturnType<typeof generateOpenApiDocument>) =>
+  Object.entries(document.paths!).flatMap(([path, item]) => Object.keys(item!).map((method) => `${method} ${path}`));
+
+test('leaves internal operations and their components out by default', () => {
+  const document = generateOpenApiDocument(router, options);
+  assert.deepEqual(operations(document), ['get /users/{id}', 'get /users/export']);
+  assert.equal('AuditEntry' in (document.components?.schemas ?? {}), false);
+  assert.ok('PublicUser' in (document.components?.schemas ?? {}));
+  assert.deepEqual(document.tags, [{ name: 'users' }, { name: 'bulk' }]);
+
+  const internal = generateOpenApiDocument(router, { ...options, includeInternal: true });
+  assert.deepEqual(operations(internal), ['get /users/{id}', 'get /users/export', 'get /admin/audit']);
+  assert.ok('AuditEntry' in (internal.components?.schemas ?? {}));
+});
+
+test('filters by tag, path glob and predicate', () => {
+  assert.deepEqual(operations(generateOpenApiDocument(router, { ...options, excludeTags: ['bulk'] })), ['get /users/{id}']);
+  assert.deepEqual(operations(generateOpenApiDocument(router, { ...options, includeTags: ['bulk'] })), [
+    'get /users/export',
+  ]);
+  assert.deepEqual(
+    operations(generateOpenApiDocument(router, { ...options, includeInternal: true, includePaths: ['admin.*'] })),
+    ['get /admin/audit']
+  );
+  assert.deepEqual(operations(generateOpenApiDocument(router, { ...options, excludePaths: ['**.export'] })), [
+    'get /users/{id}',
+  ]);
+
+  const filtered = generateOpenApiDocument(router, {
+    ...options,
+    filter: (meta) => meta.openapi?.path !== '/users/{id}',
+  });
+  assert.deepEqual(operations(filtered), ['get /users/export']);
+  assert.equal('PublicUser' in (filtered.components?.schemas ?? {}), false);
+});
+
+test('still serves internal operations', async () => {
+  const handler = createOpenApiHandler({ router, createContext: () => ({}) });
+  const response = await handler({ method: 'GET', url: '/admin/audit', headers: {} });
+  assert.equal(response.status, 200);
+});
+
+test('prunes components unreachable from the roots', () => {
+  const schemas = {
+    Team: { type: 'object', properties: { owner: { $ref: '#/components/schemas/User' } } },
+    User: { type: 'object' },
+    Unused: { type: 'string' },
+  };
+  pruneComponentSchemas(schemas, { schema: { $ref: '#/components/schemas/Team' } });
+  assert.deepEqual(Object.keys(schemas), ['Team', 'User']);
+});
@@ -0,0 +1,71 @@
+/**
+ * Router shared by the handler and adapter tests
+ */
+
+import { initTRPC } from '@trpc/server';
+import typia, { tags } from 'typia';
+import { createParser, type OpenApiMeta } from '../src';
+
+const t = initTRPC.meta<OpenApiMeta>().create();
+
+export interface Item {
+  id: number;
+  name: string;
+}
+
+interface GetItemInput {
+  id: number & tags.Type<'int32'>;
+  verbose?: boolean;
+}
+
+interface ListItemsInput {
+  q?: string;
+  tags?: string[];
+  filter?: { status?: string; owner?: string };
+}
+
+interface CreateItemInput {
+  name: string;
+}
+
+interface ItemOwnerInput {
+  id: number;
+  tenantId: string;
+  session?: string;
+}
+
+export const appRouter = t.router({
+  items: t.router({
+    get: t.procedure
+      .meta({ openapi: { method: 'GET', path: '/items/{id}' } })
+      .input(createParser(typia.createAssert<GetItemInput>(), typia.json.schemas<[GetItemInput], '3.1'>()))
+      .query(({ input }) => ({ id: input.id, name: input.verbose ? `item ${input.id}` : 'item' })),
+    list: t.procedure
+      .meta({ openapi: { method: 'GET', path: '/items' } })
+      .input(createParser(typia.createAssert<ListItemsInput>(), typia.json.schemas<[ListItemsInput], '3.1'>()))
+      .query(({ input }) => input),
+    create: t.procedure
+      .meta({ openapi: { method: 'POST', path: '/items', successStatus: 201 } })
+      .input(createParser(typia.createAssert<CreateItemInput>(), typia.json.schemas<[CreateItemInput], '3.1'>()))
+      .mutation(({ input }): Item => ({ id: 1, name: input.name })),
+    touch: t.procedure
+      .meta({ openapi: { method: 'POST', path: '/items/{id}/touch' } })
+      .input(createParser(typia.createAssert<{ id: number }>(), typia.json.schemas<[{ id: number }], '3.1'>()))
+      .mutation(({ input }) => ({ touched: input.id })),
+    remove: t.procedure
+      .meta({ openapi: { method: 'DELETE', path: '/items/{id}', successStatus: 204 } })
+      .input(createParser(typia.createAssert<{ id: number }>(), typia.json.schemas<[{ id: number }], '3.1'>()))
+      .mutation(() => undefined),
+    owner: t.procedure
+      .meta({
+        openapi: {
+          method: 'GET',
+          path: '/items/{id}/owner',
+          headers: { tenantId: 'X-Tenant-Id' },
+          cookies: ['session'],
+        },
+      })
+      .input(createParser(typia.createAssert<ItemOwnerInput>(), typia.json.schemas<[ItemOwnerInput], '3.1'>()))
+      .query(({ input }) => input),
+  }),
+});
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { initTRPC } from '@trpc/server';
+import typia from 'typia';
+import { createParser, generateOpenApiDocument, type OpenApiMeta } from '../src';
+
+const t = initTRPC.meta<OpenApiMeta>().create();
+
+interface Order {
+  id: string;
+  total: number;
+}
+
+const orderParser = createParser(typia.createAssert<Order>(), typia.json.schemas<[Order], '3.1'>());
+const idParser = createParser(typia.createAssert<{ id: string }>(), typia.json.schemas<[{ id: string }], '3.1'>());
+
+interface OrderListInput {
+  status?: string;
+  tenantId: string;
+  session?: string;
+}
+
+const router = t.router({
+  listOrders: t.procedure
+    .meta({ openapi: { method: 'GET', path: '/orders', headers: { tenantId: 'X-Tenant-Id' }, cookies: ['session'] } })
+    .input(createParser(typia.createAssert<OrderListInput>(), typia.json.schemas<[OrderListInput], '3.1'>()))
+    .query(() => []),
+  getOrder: t.procedure
+    .meta({ openapi: { method: 'GET', path: '/orders/{id}', errors: ['NOT_FOUND', 'FORBIDDEN'] } })
+    .input(idParser)
+    .output(orderParser)
+    .query(({ input }) => ({ id: input.id, total: 1 })),
+  createOrder: t.procedure
+    .meta({
+      openapi: {
+        method: 'POST',
+        path: '/orders',
+        successStatus: 201,
+        responseHeaders: { Location: { description: 'URL of the new order', schema: { type: 'string' } } },
+      },
+    })
+    .input(orderParser)
+    .output(orderParser)
+    .mutation(({ input }) => input),
+  cancelOrder: t.procedure
+    .meta({ openapi: { method: 'POST', path: '/orders/{id}/cancel', errors: ['CONFLICT', 'BAD_REQUEST'] } })
+    .input(idParser)
+    .mutation(() => undefined),
+});
+
+const options = { title: 'Orders', version: '1.0.0', baseUrl: '/' };
+
+test('documents declared error codes with the handler status mapping', () => {
+  const document = generateOpenApiDocument(router, options);
+  const responses = document.paths!['/orders/{id}']!.get!.responses!;
+  assert.deepEqual(Object.keys(responses).sort(), ['200', '400', '403', '404', 'default']);
+  assert.deepEqual((responses['404'] as { content: unknown }).content, {
+    'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } },
+  });
+});
+
+test('merges an error code into the validation response of the same status', () => {
+  const document = generateOpenApiDocument(router, options);
+  const responses = document.paths!['/orders/{id}/cancel']!.post!.responses!;
+  const badRequest = responses['400'] as { content: Record<string, { schema: unknown }> };
+  assert.deepEqual(badRequest.content['application/json'].schema, {
+    oneOf: [
+      { $ref: '#/components/schemas/ValidationErrorResponse' },
+      { $ref: '#/components/schemas/ErrorResponse' },
+    ],
+  });
+  assert.ok(responses['409']);
+});
+
+test('registers the configured error schema once under components', () => {
+  const errorResponseSchema = {
+    type: 'object' as const,
+    properties: { error: { type: 'string' as const }, traceId: { type: 'string' as const } },
+    required: ['error'],
+  };
+  const document = generateOpenApiDocument(router, { ...options, errorResponseSchema });
+  assert.deepEqual(document.components!.schemas!.ErrorResponse, errorResponseSchema);
+
+  const text = JSON.stringify(document);
+  assert.equal(text.includes('"traceId"'), true);
+  assert.equal(text.split('"traceId"').length - 1, 1);
+});
+
+test('emits mapped headers and cookies as parameters instead of query fields', () => {
+  const document = generateOpenApiDocument(router, options);
+  const parameters = document.paths!['/orders']!.get!.parameters as Array<{ name: string; in: string; required?: boolean }>;
+  assert.deepEqual(
+    parameters
+      .map(({ name, in: location, required }) => ({ name, in: location, required: !!required }))
+      .sort((a, b) => (a.in < b.in ? -1 : a.in > b.in ? 1 : 0)),
+    [
+      { name: 'session', in: 'cookie', required: false },
+      { name: 'X-Tenant-Id', in: 'header', required: true },
+      { name: 'status', in: 'query', required: false },
+    ]
+  );
+});
+
+test('documents the success status and response headers', () => {
+  const document = generateOpenApiDocument(router, options);
+  const responses = document.paths!['/orders']!.post!.responses!;
+  assert.equal(responses['200'], undefined);
+  assert.deepEqual((responses['201'] as { headers: unknown }).headers, {
+    Location: { description: 'URL of the new order', schema: { type: 'string' } },
+  });
+});
@@ -0,0 +1,154 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createOpenApiHandler, type OpenApiRequest } from '../src';
+import { appRouter } from './fixtures';
+
+const handler = createOpenApiHandler({ router: appRouter, createContext: () => ({}) });
+
+const request = (req: Partial<OpenApiRequest> & Pick<OpenApiRequest, 'method' | 'url'>) =>
+  handler({ headers: {}, ...req });
+
+test('coerces path and query parameters', async () => {
+  const response = await request({ method: 'GET', url: '/items/7?verbose=true' });
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body, { id: 7, name: 'item 7' });
+});
+
+test('rejects a path parameter that is not an integer', async () => {
+  const response = await request({ method: 'GET', url: '/items/seven' });
+  assert.equal(response.status, 400);
+});
+
+test('answers 405 with Allow for a known path', async () => {
+  const response = await request({ method: 'PUT', url: '/items/7' });
+  assert.equal(response.status, 405);
+  assert.equal(response.headers.Allow, 'GET, DELETE, HEAD, OPTIONS');
+});
+
+test('answers HEAD from the GET route without a body', async () => {
+  const response = await request({ method: 'HEAD', url: '/items/7' });
+  assert.equal(response.status, 200);
+  assert.equal(response.body, undefined);
+});
+
+test('answers OPTIONS from the route table', async () => {
+  const response = await request({ method: 'OPTIONS', url: '/items' });
+  assert.equal(response.status, 204);
+  assert.equal(response.headers.Allow, 'GET, POST, HEAD, OPTIONS');
+
+  const unknown = await request({ method: 'OPTIONS', url: '/unknown' });
+  assert.equal(unknown.status, 404);
+});
+
+test('keeps malformed percent escapes instead of failing', async () => {
+  const response = await request({ method: 'GET', url: '/items?q=%E0%A4' });
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body, { q: '%E0%A4' });
+});
+
+test('ignores deepObject keys that reach object prototypes', async () => {
+  const response = await request({
+    method: 'GET',
+    url: '/items?filter[__proto__][polluted]=yes&filter[constructor][prototype][polluted]=yes&filter[status]=open',
+  });
+  assert.equal(response.status, 200);
+  assert.deepEqual({ ...(response.body as { filter: object }).filter }, { status: 'open' });
+  assert.equal(({} as Record<string, unknown>).polluted, undefined);
+});
+
+test('accepts repeated constructor and __proto__ query keys', async () => {
+  const response = await request({ method: 'GET', url: '/items?constructor=x&constructor=y&__proto__=a&__proto__=b&q=ok' });
+  assert.equal(response.status, 200);
+  const body = response.body as Record<string, unknown>;
+  assert.equal(body.q, 'ok');
+  assert.deepEqual(Object.getOwnPropertyDescriptor(body, 'constructor')?.value, ['x', 'y']);
+  assert.equal(Object.getPrototypeOf(body), Object.prototype);
+});
+
+test('rejects a JSON route body sent as text/plain with 415', async () => {
+  const response = await request({
+    method: 'POST',
+    url: '/items',
+    headers: { 'content-type': 'text/plain', 'content-length': '16' },
+    body: '{"name":"apple"}',
+  });
+  assert.equal(response.status, 415);
+  assert.equal(response.headers.Accept, 'application/json');
+});
+
+test('rejects a framed body without Content-Type with 415', async () => {
+  const response = await request({
+    method: 'POST',
+    url: '/items',
+    headers: { 'transfer-encoding': 'chunked' },
+    body: { name: 'apple' },
+  });
+  assert.equal(response.status, 415);
+});
+
+test('accepts the empty object body parsers set on bodiless requests', async () => {
+  const unframed = await request({ method: 'POST', url: '/items/3/touch', body: {} });
+  assert.equal(unframed.status, 200);
+  assert.deepEqual(unframed.body, { touched: 3 });
+
+  const empty = await request({ method: 'POST', url: '/items/3/touch', headers: { 'content-length': '0' }, body: {} });
+  assert.equal(empty.status, 200);
+});
+
+test('accepts JSON bodies with parameters on the media type', async () => {
+  const response = await request({
+    method: 'POST',
+    url: '/items',
+    headers: { 'content-type': 'application/json; charset=utf-8', 'content-length': '16' },
+    body: { name: 'apple' },
+  });
+  assert.equal(response.status, 201);
+  assert.deepEqual(response.body, { id: 1, name: 'apple' });
+});
+
+test('reads mapped header and cookie parameters', async () => {
+  const response = await request({
+    method: 'GET',
+    url: '/items/4/owner?tenantId=ignored',
+    headers: { 'x-tenant-id': 'acme', cookie: 'theme=dark; session=abc%20def' },
+  });
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body, { id: 4, tenantId: 'acme', session: 'abc def' });
+});
+
+test('rejects a missing required header parameter', async () => {
+  const response = await request({ method: 'GET', url: '/items/4/owner' });
+  assert.equal(response.status, 400);
+});
+
+test('answers with the declared success status', async () => {
+  const created = await request({
+    method: 'POST',
+    url: '/items',
+    headers: { 'content-type': 'application/json', 'content-length': '16' },
+    body: { name: 'apple' },
+  });
+  assert.equal(created.status, 201);
+
+  const removed = await request({ method: 'DELETE', url: '/items/3' });
+  assert.equal(removed.status, 204);
+  assert.equal(removed.body, undefined);
+  assert.equal(removed.headers['Content-Type'], undefined);
+});
+
+test('lets responseMeta set status and headers', async () => {
+  const withMeta = createOpenApiHandler({
+    router: appRouter,
+    createContext: () => ({}),
+    responseMeta: ({ data, path }) =>
+      path === 'items.create' ? { status: 202, headers: { Location: `/items/${(data as { id: number }).id}` } } : undefined,
+  });
+  const response = await withMeta({
+    method: 'POST',
+    url: '/items',
+    headers: { 'content-type': 'application/json', 'content-length': '16' },
+    body: { name: 'apple' },
+  });
+  assert.equal(response.status, 202);
+  assert.equal(response.headers.Location, '/items/1');
+});
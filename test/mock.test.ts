@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { initTRPC } from '@trpc/server';
+import typia, { tags } from 'typia';
+import { createFetchHandler, createOpenApiMockHandler, createParser, type OpenApiMeta } from '../src';
+
+const t = initTRPC.meta<OpenApiMeta>().create();
+
+interface User {
+  id: number & tags.Type<'uint32'>;
+  name: string & tags.MinLength<1>;
+  role: 'admin' | 'member';
+}
+
+const userParser = createParser(typia.createAssert<User>(), typia.json.schemas<[User], '3.1'>());
+const idParser = createParser(typia.createAssert<{ id: number }>(), typia.json.schemas<[{ id: number }], '3.1'>());
+
+let resolverCalls = 0;
+
+const router = t.router({
+  users: t.router({
+    get: t.procedure
+      .meta({ openapi: { method: 'GET', path: '/users/{id}' } })
+      .input(idParser)
+      .output(userParser)
+      .query(() => {
+        resolverCalls++;
+        return { id: 1, name: 'real', role: 'admin' as const };
+      }),
+    remove: t.procedure
+      .meta({ openapi: { method: 'DELETE', path: '/users/{id}' } })
+      .input(idParser)
+      .mutation(() => undefined),
+  }),
+});
+
+test('answers with data matching the output schema, without running resolvers', async () => {
+  const handler = createOpenApiMockHandler(router, { seed: 7 });
+  const response = await handler({ method: 'GET', url: '/users/3', headers: {} });
+  assert.equal(response.status, 200);
+  assert.doesNotThrow(() => typia.assert<User>(response.body));
+  assert.equal(resolverCalls, 0);
+});
+
+test('repeats the same data for the same seed, operation and input', async () => {
+  const first = createOpenApiMockHandler(router, { seed: 7 });
+  const second = createOpenApiMockHandler(router, { seed: 7 });
+  const [a, b, other] = await Promise.all([
+    first({ method: 'GET', url: '/users/3', headers: {} }),
+    second({ method: 'GET', url: '/users/3', headers: {} }),
+    second({ method: 'GET', url: '/users/4', headers: {} }),
+  ]);
+  assert.deepEqual(a.body, b.body);
+  assert.notDeepEqual(a.body, other.body);
+});
+
+test('still validates input with the real parsers', async () => {
+  const handler = createOpenApiMockHandler(router);
+  const response = await handler({ method: 'GET', url: '/users/abc', headers: {} });
+  assert.equal(response.status, 400);
+});
+
+test('uses fixtures and simulated errors', async () => {
+  const handler = createOpenApiMockHandler(router, {
+    fixtures: { 'users.get': ({ input }) => ({ id: (input as { id: number }).id, name: 'Ada', role: 'admin' }) },
+    errors: { 'users.remove': 'FORBIDDEN' },
+  });
+
+  const fixture = await handler({ method: 'GET', url: '/users/5', headers: {} });
+  assert.deepEqual(fixture.body, { id: 5, name: 'Ada', role: 'admin' });
+
+  const configured = await handler({ method: 'DELETE', url: '/users/5', headers: {} });
+  assert.equal(configured.status, 403);
+
+  const requested = await handler({ method: 'GET', url: '/users/5', headers: { 'x-mock-error': 'not_found' } });
+  assert.equal(requested.status, 404);
+  assert.equal((requested.body as { code: string }).code, 'NOT_FOUND');
+});
+
+test('serves mock data through the adapters', async () => {
+  const handler = createFetchHandler({ router, createContext: () => ({}), mock: { seed: 1 } });
+  const response = await handler(new Request('http://localhost/users/2'));
+  assert.equal(response.status, 200);
+  const body: unknown = await response.json();
+  assert.doesNotThrow(() => typia.assert<User>(body));
+  assert.equal(resolverCalls, 0);
+});
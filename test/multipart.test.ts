@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { initTRPC } from '@trpc/server';
+import typia from 'typia';
+import { createOpenApiHandler, createParser, type OpenApiMeta, type UploadedFile } from '../src';
+import { parseMultipart } from '../src/multipart';
+
+const BOUNDARY = 'xyz';
+const CONTENT_TYPE = `multipart/form-data; boundary=${BOUNDARY}`;
+
+/**
+ * Encode parts as a multipart body; parts with a filename become files
+ */
+function multipart(parts: Array<{ name: string; value: string; filename?: string }>): Uint8Array {
+  const body = parts
+    .map(({ name, value, filename }) => {
+      const disposition = `form-data; name="${name}"${filename ? `; filename="${filename}"` : ''}`;
+      return `--${BOUNDARY}\r\nContent-Disposition: ${disposition}\r\n\r\n${value}\r\n`;
+    })
+    .join('');
+  return new TextEncoder().encode(`${body}--${BOUNDARY}--\r\n`);
+}
+
+test('parses fields and files', () => {
+  const { fields, files } = parseMultipart(
+    multipart([
+      { name: 'tag', value: 'a' },
+      { name: 'tag', value: 'b' },
+      { name: 'doc', value: 'hello', filename: 'doc.txt' },
+    ]),
+    CONTENT_TYPE
+  );
+  assert.deepEqual({ ...fields }, { tag: ['a', 'b'] });
+  assert.equal(files.doc[0].name, 'doc.txt');
+  assert.equal(files.doc[0].type, 'application/octet-stream');
+  assert.equal(files.doc[0].text(), 'hello');
+});
+
+test('keeps part names that match Object.prototype members', () => {
+  const { fields, files } = parseMultipart(
+    multipart([
+      { name: 'constructor', value: 'x' },
+      { name: '__proto__', value: 'y' },
+      { name: 'toString', value: 'z', filename: 'z.txt' },
+    ]),
+    CONTENT_TYPE
+  );
+  assert.deepEqual(fields.constructor, ['x']);
+  assert.deepEqual(fields['__proto__'], ['y']);
+  assert.deepEqual(Object.keys(files), ['toString']);
+  assert.equal(Object.prototype.hasOwnProperty.call(Object.prototype, 'push'), false);
+});
+
+test('rejects malformed bodies', () => {
+  assert.throws(() => parseMultipart(new TextEncoder().encode('nope'), CONTENT_TYPE), { code: 'BAD_REQUEST' });
+  assert.throws(() => parseMultipart(multipart([]), 'multipart/form-data'), { code: 'BAD_REQUEST' });
+});
+
+interface UploadInput {
+  title: string;
+  file: UploadedFile;
+  attachments?: UploadedFile[];
+}
+
+const t = initTRPC.meta<OpenApiMeta>().create();
+
+const router = t.router({
+  upload: t.procedure
+    .meta({
+      openapi: {
+        method: 'POST',
+        path: '/uploads',
+        contentType: 'multipart/form-data',
+        upload: { maxFiles: 2, maxFileSize: 8 },
+      },
+    })
+    .input(createParser(typia.createAssert<UploadInput>(), typia.json.schemas<[UploadInput], '3.1'>()))
+    .mutation(({ input }) => ({
+      title: input.title,
+      file: input.file.name,
+      attachments: input.attachments?.map((attachment) => attachment.name),
+    })),
+});
+
+const handler = createOpenApiHandler({ router, createContext: () => ({}) });
+
+const upload = (parts: Array<{ name: string; value: string; filename?: string }>) =>
+  handler({ method: 'POST', url: '/uploads', headers: { 'content-type': CONTENT_TYPE }, body: multipart(parts) });
+
+test('maps parts to file handles and file lists', async () => {
+  const response = await upload([
+    { name: 'title', value: 'report' },
+    { name: 'file', value: 'abc', filename: 'a.txt' },
+    { name: 'attachments', value: 'def', filename: 'b.txt' },
+  ]);
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body, { title: 'report', file: 'a.txt', attachments: ['b.txt'] });
+});
+
+test('accepts parts named after Object.prototype members', async () => {
+  const response = await upload([
+    { name: 'title', value: 'report' },
+    { name: 'constructor', value: 'x' },
+    { name: '__proto__', value: 'y', filename: 'y.txt' },
+    { name: 'file', value: 'abc', filename: 'a.txt' },
+  ]);
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body, { title: 'report', file: 'a.txt', attachments: undefined });
+});
+
+test('answers 413 when upload limits are exceeded', async () => {
+  const tooMany = await upload([
+    { name: 'file', value: 'a', filename: 'a.txt' },
+    { name: 'attachments', value: 'b', filename: 'b.txt' },
+    { name: 'attachments', value: 'c', filename: 'c.txt' },
+  ]);
+  assert.equal(tooMany.status, 413);
+
+  const tooLarge = await upload([{ name: 'file', value: 'way too large', filename: 'a.txt' }]);
+  assert.equal(tooLarge.status, 413);
+});
@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { initTRPC } from '@trpc/server';
+import { createNodeHttpHandler, createExpressMiddleware, type OpenApiMeta } from '../src';
+import { appRouter } from './fixtures';
+
+test('answers errors escaping the handler instead of leaving the request hanging', async () => {
+  const handler = createNodeHttpHandler({
+    router: appRouter,
+    createContext: () => ({}),
+    responseMeta: ({ path }) => {
+      if (path === 'items.touch') throw new Error('responseMeta failed');
+      return undefined;
+    },
+  });
+  const server = createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const ok = await fetch(`http://127.0.0.1:${port}/items/3`);
+    assert.equal(ok.status, 200);
+
+    const failed = await fetch(`http://127.0.0.1:${port}/items/3/touch`, { method: 'POST' });
+    assert.equal(failed.status, 500);
+    assert.equal(((await failed.json()) as { code: string }).code, 'INTERNAL_SERVER_ERROR');
+  } finally {
+    server.close();
+  }
+});
+
+test('passes unmatched requests on and reads pre-parsed bodies in Express middleware', async () => {
+  const middleware = createExpressMiddleware({ router: appRouter, createContext: () => ({}) });
+  let passedOn = 0;
+  const server = createServer((req, res) => {
+    // What express.json() leaves behind
+    if (req.headers['content-type'] === 'application/json') Object.assign(req, { body: { name: 'plum' } });
+    void middleware(req, res, () => {
+      passedOn++;
+      res.statusCode = 418;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const unmatched = await fetch(`http://127.0.0.1:${port}/elsewhere`);
+    assert.equal(unmatched.status, 418);
+    assert.equal(passedOn, 1);
+
+    const created = await fetch(`http://127.0.0.1:${port}/items`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+    assert.equal(created.status, 201);
+    assert.deepEqual(await created.json(), { id: 1, name: 'plum' });
+  } finally {
+    server.close();
+  }
+});
+
+test('rejects bodies over maxBodySize with 413', async () => {
+  const server = createServer(createNodeHttpHandler({ router: appRouter, createContext: () => ({}), maxBodySize: 8 }));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/items`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'a long name' }),
+    });
+    assert.equal(response.status, 413);
+  } finally {
+    server.close();
+  }
+});
+
+test('removes backpressure listeners once a streamed chunk drains', async () => {
+  const t = initTRPC.meta<OpenApiMeta>().create();
+  const chunk = 'x'.repeat(64 * 1024);
+  const router = t.router({
+    export: t.procedure
+      .meta({ openapi: { method: 'GET', path: '/export', responseContentType: 'text/plain' } })
+      .query(async function* () {
+        for (let i = 0; i < 32; i++) yield chunk;
+      }),
+  });
+
+  let res: ServerResponse | undefined;
+  let baseline = 0;
+  const handler = createNodeHttpHandler({
+    router,
+    createContext: (opts) => {
+      res = opts.res;
+      baseline = res.listenerCount('close');
+      return {};
+    },
+  });
+  const server = createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/export`);
+    assert.equal((await response.text()).length, 32 * chunk.length);
+    assert.equal(res!.listenerCount('drain'), 0);
+    assert.ok(res!.listenerCount('close') <= baseline);
+  } finally {
+    server.close();
+  }
+});
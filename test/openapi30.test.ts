@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertToOpenApi30, generateOpenApiDocument, type OpenApiConversionWarning } from '../src';
+import { appRouter } from './fixtures';
+
+type Document = Parameters<typeof convertToOpenApi30>[0];
+
+/**
+ * Convert component schemas, returning the converted schemas and the warnings
+ */
+function convertSchemas(schemas: Record<string, unknown>) {
+  const warnings: OpenApiConversionWarning[] = [];
+  const document = {
+    openapi: '3.1.0',
+    info: { title: 'Test', version: '1.0.0' },
+    paths: {},
+    components: { schemas },
+  } as Document;
+  const converted = convertToOpenApi30(document, (warning) => warnings.push(warning));
+  return { schemas: converted.components!.schemas as Record<string, unknown>, warnings };
+}
+
+test('turns null types and unions into nullable', () => {
+  const { schemas } = convertSchemas({
+    Name: { type: ['string', 'null'] },
+    Owner: { oneOf: [{ $ref: '#/components/schemas/User' }, { type: 'null' }] },
+  });
+  assert.deepEqual(schemas.Name, { type: 'string', nullable: true });
+  assert.deepEqual(schemas.Owner, { allOf: [{ $ref: '#/components/schemas/User' }], nullable: true });
+});
+
+test('marks enums admitting null as nullable', () => {
+  const { schemas } = convertSchemas({
+    Nothing: { const: null },
+    Status: { type: ['string', 'null'], enum: ['open', null] },
+    Choice: { enum: ['a', null] },
+    Kind: { const: 'user' },
+  });
+  assert.deepEqual(schemas.Nothing, { enum: [null], nullable: true });
+  assert.deepEqual(schemas.Status, { type: 'string', enum: ['open', null], nullable: true });
+  assert.deepEqual(schemas.Choice, { enum: ['a', null], nullable: true });
+  assert.deepEqual(schemas.Kind, { enum: ['user'] });
+});
+
+test('converts exclusive bounds and examples', () => {
+  const { schemas } = convertSchemas({
+    Age: { type: 'integer', exclusiveMinimum: 0, maximum: 150, examples: [42, 7] },
+  });
+  assert.deepEqual(schemas.Age, { type: 'integer', minimum: 0, exclusiveMinimum: true, maximum: 150, example: 42 });
+});
+
+test('drops unsupported keywords with a warning', () => {
+  const { schemas, warnings } = convertSchemas({
+    Tags: { type: 'array', prefixItems: [{ type: 'string' }], $comment: 'tuple' },
+  });
+  assert.deepEqual(schemas.Tags, { type: 'array', items: { type: 'string' } });
+  assert.deepEqual(
+    warnings.map((warning) => warning.pointer),
+    ['#/components/schemas/Tags/prefixItems', '#/components/schemas/Tags/$comment']
+  );
+});
+
+test('emits 3.0.3 documents from the generator', () => {
+  const document = generateOpenApiDocument(appRouter, {
+    title: 'Items',
+    version: '1.0.0',
+    baseUrl: '/',
+    openapiVersion: '3.0',
+  });
+  assert.equal(document.openapi, '3.0.3');
+  assert.ok(document.paths['/items/{id}']?.get);
+});
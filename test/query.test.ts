@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQueryString, deserializeQuery } from '../src/query';
+import type { InputObjectSchema } from '../src/schema';
+
+const inputSchema: InputObjectSchema = {
+  properties: {
+    ids: { type: 'array', items: { type: 'integer' } },
+    filter: {
+      type: 'object',
+      properties: { status: { type: 'string' }, owner: { type: 'string' } },
+    },
+    q: { type: 'string' },
+  },
+  required: [],
+  components: {},
+};
+
+test('parses repeated keys into arrays and decodes form encoding', () => {
+  assert.deepEqual({ ...parseQueryString('ids=1&ids=2&q=hello+world%21&flag') }, {
+    ids: ['1', '2'],
+    q: 'hello world!',
+    flag: '',
+  });
+});
+
+test('keeps malformed percent escapes as-is', () => {
+  assert.deepEqual({ ...parseQueryString('q=%E0&%ZZ=1&ok=%41') }, { q: '%E0', '%ZZ': '1', ok: 'A' });
+});
+
+test('treats inherited property names as plain keys', () => {
+  const query = parseQueryString('constructor=x&constructor=y&__proto__=a&__proto__=b&toString=1');
+  assert.deepEqual(query.constructor, ['x', 'y']);
+  assert.deepEqual(Object.getOwnPropertyDescriptor(query, '__proto__')?.value, ['a', 'b']);
+  assert.equal(query.toString, '1');
+  assert.equal(Object.getPrototypeOf(query), null);
+  assert.equal(Array.prototype.hasOwnProperty.call(Object.prototype, '0'), false);
+});
+
+test('splits delimited array styles', () => {
+  const query = { ids: '1|2|3' };
+  const result = deserializeQuery(query, inputSchema, { parameters: { ids: { style: 'pipeDelimited' } } });
+  assert.deepEqual(result.ids, ['1', '2', '3']);
+});
+
+test('merges repeated and bracketed array keys', () => {
+  const result = deserializeQuery({ ids: '1', 'ids[]': ['2', '3'] }, inputSchema, undefined);
+  assert.deepEqual(result.ids, ['1', '2', '3']);
+  assert.equal('ids[]' in result, false);
+});
+
+test('rebuilds deepObject parameters', () => {
+  const result = deserializeQuery({ 'filter[status]': 'open', 'filter[owner]': 'me', q: 'x' }, inputSchema, undefined);
+  assert.deepEqual({ ...(result.filter as object) }, { status: 'open', owner: 'me' });
+  assert.equal(result.q, 'x');
+});
+
+test('rebuilds form objects without explode', () => {
+  const result = deserializeQuery({ filter: 'status,open,owner,me' }, inputSchema, {
+    parameters: { filter: { style: 'form', explode: false } },
+  });
+  assert.deepEqual(result.filter, { status: 'open', owner: 'me' });
+});
+
+test('drops deepObject keys that reach object prototypes', () => {
+  const result = deserializeQuery(
+    {
+      'filter[__proto__][polluted]': 'yes',
+      'filter[constructor][prototype][polluted]': 'yes',
+      'filter[status]': 'open',
+    },
+    inputSchema,
+    undefined
+  );
+  assert.deepEqual({ ...(result.filter as object) }, { status: 'open' });
+  assert.equal(({} as Record<string, unknown>).polluted, undefined);
+});
+
+test('does not follow inherited properties when nesting', () => {
+  const result = deserializeQuery({ 'filter[toString][x]': '1' }, inputSchema, undefined);
+  assert.deepEqual(JSON.parse(JSON.stringify(result.filter)), { toString: { x: '1' } });
+  assert.equal(Object.prototype.hasOwnProperty.call(Object.prototype.toString, 'x'), false);
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import { initTRPC } from '@trpc/server';
+import { createOpenApiHandler, type OpenApiMeta } from '../src';
+import { getResultBody } from '../src/response';
+
+async function* rows() {
+  yield 'id,name\n';
+  yield '1,apple\n';
+}
+
+async function collect(body: unknown): Promise<unknown[]> {
+  const chunks: unknown[] = [];
+  for await (const chunk of body as AsyncIterable<unknown>) chunks.push(chunk);
+  return chunks;
+}
+
+test('writes string chunks as-is for non-JSON content types', async () => {
+  const { headers, body } = getResultBody(rows(), 'text/csv', 'rows.csv');
+  assert.deepEqual(headers, { 'Content-Type': 'text/csv', 'Content-Disposition': 'attachment; filename="rows.csv"' });
+  assert.deepEqual(await collect(body), ['id,name\n', '1,apple\n']);
+});
+
+test('writes other async iterables as NDJSON', async () => {
+  async function* values() {
+    yield { n: 1 };
+    yield 'two';
+  }
+  const { headers, body } = getResultBody(values(), undefined);
+  assert.equal(headers['Content-Type'], 'application/x-ndjson');
+  assert.deepEqual(await collect(body), ['{"n":1}\n', '"two"\n']);
+});
+
+test('passes bytes and byte streams through', () => {
+  const bytes = Buffer.from('abc');
+  assert.deepEqual(getResultBody(bytes, undefined), {
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: bytes,
+  });
+
+  const stream = Readable.from([bytes]);
+  assert.equal(getResultBody(stream, 'application/pdf').body, stream);
+});
+
+test('sends strings as-is for non-JSON types and as JSON otherwise', () => {
+  assert.equal(getResultBody('a,b', 'text/csv').body, 'a,b');
+  assert.equal(getResultBody('a,b', undefined).body, '"a,b"');
+  assert.equal(getResultBody({ a: 1 }, 'text/plain').body, '{"a":1}');
+});
+
+test('answers 204 without a body when a procedure returns nothing', async () => {
+  const t = initTRPC.meta<OpenApiMeta>().create();
+  const router = t.router({
+    ping: t.procedure.meta({ openapi: { method: 'POST', path: '/ping' } }).mutation(() => undefined),
+    accept: t.procedure.meta({ openapi: { method: 'POST', path: '/accept', successStatus: 202 } }).mutation(() => undefined),
+  });
+  const handler = createOpenApiHandler({ router, createContext: () => ({}) });
+
+  const ping = await handler({ method: 'POST', url: '/ping', headers: {} });
+  assert.deepEqual(ping, { status: 204, headers: {}, body: undefined });
+
+  const accepted = await handler({ method: 'POST', url: '/accept', headers: {} });
+  assert.deepEqual(accepted, { status: 202, headers: {}, body: undefined });
+});
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRouteTree, insertRoute, findRoute, findRouteMethods, RouteConflictError } from '../src/route-tree';
+
+const tree = createRouteTree<string>();
+insertRoute(tree, 'GET', '/users/{id}', 'getUser');
+insertRoute(tree, 'DELETE', '/users/{id}', 'deleteUser');
+insertRoute(tree, 'GET', '/users/me', 'getMe');
+insertRoute(tree, 'GET', '/files/{name}.{ext}', 'getFile');
+insertRoute(tree, 'GET', '/users/{id}/posts/{postId}', 'getPost');
+
+const valueOf = (pathname: string, method: string) => {
+  const match = findRoute(tree, pathname, method);
+  return match && { value: match.node.methods.get(method)!.value, values: match.values };
+};
+
+test('prefers static segments over parameters', () => {
+  assert.deepEqual(valueOf('/users/me', 'GET'), { value: 'getMe', values: [] });
+  assert.deepEqual(valueOf('/users/42', 'GET'), { value: 'getUser', values: ['42'] });
+});
+
+test('falls back to a parameter route registering the method', () => {
+  assert.deepEqual(valueOf('/users/me', 'DELETE'), { value: 'deleteUser', values: ['me'] });
+});
+
+test('matches mixed segments and nested parameters', () => {
+  assert.deepEqual(valueOf('/files/report.pdf', 'GET'), { value: 'getFile', values: ['report', 'pdf'] });
+  assert.deepEqual(valueOf('/users/1/posts/2', 'GET'), { value: 'getPost', values: ['1', '2'] });
+});
+
+test('falls back past a static segment that dead-ends deeper down', () => {
+  assert.deepEqual(valueOf('/users/me/posts/2', 'GET'), { value: 'getPost', values: ['me', '2'] });
+});
+
+test('falls back from a mixed segment to a parameter', () => {
+  const files = createRouteTree<string>();
+  insertRoute(files, 'GET', '/files/{name}.json', 'getJson');
+  insertRoute(files, 'GET', '/files/{path}/raw', 'getRaw');
+  assert.deepEqual(findRoute(files, '/files/a.json', 'GET')?.values, ['a']);
+  const raw = findRoute(files, '/files/a.json/raw', 'GET');
+  assert.equal(raw?.node.methods.get('GET')?.value, 'getRaw');
+  assert.deepEqual(raw?.values, ['a.json']);
+});
+
+test('sees routes inserted after a lookup', () => {
+  const later = createRouteTree<string>();
+  insertRoute(later, 'GET', '/a/{id}', 'param');
+  assert.deepEqual(findRoute(later, '/a/b', 'GET')?.values, ['b']);
+  insertRoute(later, 'GET', '/a/b', 'static');
+  assert.equal(findRoute(later, '/a/b', 'GET')?.node.methods.get('GET')?.value, 'static');
+});
+
+test('does not match empty parameter segments or unknown paths', () => {
+  assert.equal(findRoute(tree, '/users//posts/2', 'GET'), null);
+  assert.equal(findRoute(tree, '/groups/1', 'GET'), null);
+  assert.equal(findRoute(tree, '/users/1', 'PUT'), null);
+});
+
+test('lists methods across matching branches', () => {
+  assert.deepEqual(findRouteMethods(tree, '/users/me').sort(), ['DELETE', 'GET']);
+  assert.deepEqual(findRouteMethods(tree, '/nothing'), []);
+});
+
+test('rejects two routes for the same method and path shape', () => {
+  assert.throws(() => insertRoute(tree, 'GET', '/users/{userId}', 'other', 'users.other'), RouteConflictError);
+});
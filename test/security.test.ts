@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createOpenApiHandler, generateOpenApiDocument, type OpenApiMeta, type OpenApiSecurityRequirement } from '../src';
+
+interface Context {
+  scopes?: string[];
+}
+
+const t = initTRPC.meta<OpenApiMeta>().context<Context>().create();
+
+let resolved = 0;
+const resolve = () => {
+  resolved++;
+  return { ok: true };
+};
+
+const router = t.router({
+  listProjects: t.procedure.meta({ openapi: { method: 'GET', path: '/projects' } }).query(resolve),
+  createProject: t.procedure
+    .meta({ openapi: { method: 'POST', path: '/projects', protect: { bearer: ['projects:write'] } } })
+    .mutation(resolve),
+  reports: t.procedure
+    .meta({ openapi: { method: 'GET', path: '/reports', protect: [{ bearer: [] }, { apiKey: [] }] } })
+    .query(resolve),
+  health: t.procedure.meta({ openapi: { method: 'GET', path: '/health', security: [] } }).query(resolve),
+});
+
+const security: OpenApiSecurityRequirement[] = [{ bearer: [] }];
+
+test('documents default, scoped, alternative and public requirements', () => {
+  const document = generateOpenApiDocument(router, {
+    title: 'Projects',
+    version: '1.0.0',
+    baseUrl: '/',
+    securitySchemes: { bearer: { type: 'http', scheme: 'bearer' }, apiKey: { type: 'apiKey', in: 'header', name: 'X-Api-Key' } },
+    security,
+  });
+  const paths = document.paths!;
+  assert.deepEqual(document.security, security);
+  assert.equal(paths['/projects']?.get?.security, undefined);
+  assert.deepEqual(paths['/projects']?.post?.security, [{ bearer: ['projects:write'] }]);
+  assert.deepEqual(paths['/reports']?.get?.security, [{ bearer: [] }, { apiKey: [] }]);
+  assert.deepEqual(paths['/health']?.get?.security, []);
+  assert.deepEqual(Object.keys(document.components?.securitySchemes ?? {}), ['bearer', 'apiKey']);
+});
+
+test('authorizes secured routes before running resolvers', async () => {
+  const seen: Array<{ path: string; requirements: OpenApiSecurityRequirement[] }> = [];
+  const handler = createOpenApiHandler({
+    router,
+    createContext: ({ req }) => ({ scopes: req.headers.authorization ? String(req.headers.authorization).split(' ') : undefined }),
+    security,
+    authorize: ({ requirements, ctx, path }) => {
+      seen.push({ path, requirements });
+      if (!ctx.scopes) throw new TRPCError({ code: 'UNAUTHORIZED' });
+      return requirements.some((requirement) =>
+        Object.values(requirement).every((scopes) => scopes.every((scope) => ctx.scopes!.includes(scope)))
+      );
+    },
+  });
+  resolved = 0;
+
+  const anonymous = await handler({ method: 'GET', url: '/projects', headers: {} });
+  assert.equal(anonymous.status, 401);
+
+  const readOnly = await handler({ method: 'POST', url: '/projects', headers: { authorization: 'projects:read' } });
+  assert.equal(readOnly.status, 403);
+  assert.equal(resolved, 0);
+
+  const writer = await handler({ method: 'POST', url: '/projects', headers: { authorization: 'projects:write' } });
+  assert.equal(writer.status, 200);
+
+  const health = await handler({ method: 'GET', url: '/health', headers: {} });
+  assert.equal(health.status, 200);
+  assert.equal(resolved, 2);
+
+  assert.deepEqual(seen.map(({ path }) => path), ['listProjects', 'createProject', 'createProject']);
+  assert.deepEqual(seen[1].requirements, [{ bearer: ['projects:write'] }]);
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { initTRPC, tracked } from '@trpc/server';
+import typia from 'typia';
+import { createOpenApiHandler, createParser, type OpenApiMeta } from '../src';
+import { createEventStream, formatSseEvent } from '../src/sse';
+
+const toErrorData = (error: unknown) => ({ message: (error as Error).message });
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+test('formats multi-line data and strips newlines from ids', () => {
+  assert.equal(formatSseEvent({ id: 'a\nb', event: 'tick', data: 'x' }), 'event: tick\nid: ab\ndata: "x"\n\n');
+  assert.equal(formatSseEvent({ data: undefined }), 'data: null\n\n');
+});
+
+test('sends tracked ids and ends with the source', async () => {
+  async function* source() {
+    yield tracked('1', { n: 1 });
+    yield { n: 2 };
+  }
+  assert.deepEqual(await collect(createEventStream(source(), { toErrorData })), [
+    'id: 1\ndata: {"n":1}\n\n',
+    'data: {"n":2}\n\n',
+  ]);
+});
+
+test('sends an error frame when the source throws', async () => {
+  async function* source() {
+    yield 1;
+    throw new Error('boom');
+  }
+  assert.deepEqual(await collect(createEventStream(source(), { toErrorData })), [
+    'data: 1\n\n',
+    'event: error\ndata: {"message":"boom"}\n\n',
+  ]);
+});
+
+test('sends keep-alive comments while the source is quiet', async () => {
+  async function* source() {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    yield 'late';
+  }
+  const chunks = await collect(createEventStream(source(), { keepAliveMs: 10, toErrorData }));
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.slice(0, -1).every((chunk) => chunk === ': keep-alive\n\n'));
+  assert.equal(chunks[chunks.length - 1], 'data: "late"\n\n');
+});
+
+test('stops and cleans up the source when the signal aborts', async () => {
+  const controller = new AbortController();
+  let cleanedUp = false;
+  async function* source() {
+    try {
+      yield 1;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      yield 2;
+      yield 3;
+    } finally {
+      cleanedUp = true;
+    }
+  }
+
+  const chunks: string[] = [];
+  for await (const chunk of createEventStream(source(), { keepAliveMs: 0, signal: controller.signal, toErrorData })) {
+    chunks.push(chunk);
+    controller.abort();
+  }
+  assert.deepEqual(chunks, ['data: 1\n\n']);
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assert.equal(cleanedUp, true);
+});
+
+const t = initTRPC.meta<OpenApiMeta>().create();
+
+const router = t.router({
+  ticks: t.procedure
+    .meta({ openapi: { method: 'GET', path: '/ticks' } })
+    .input(createParser(typia.createAssert<{ lastEventId?: string }>(), typia.json.schemas<[{ lastEventId?: string }], '3.1'>()))
+    .subscription(async function* ({ input }) {
+      const start = Number(input.lastEventId ?? 0);
+      yield tracked(String(start + 1), { tick: start + 1 });
+    }),
+});
+
+const handler = createOpenApiHandler({ router, createContext: () => ({}) });
+
+test('streams subscriptions as Server-Sent Events', async () => {
+  const response = await handler({ method: 'GET', url: '/ticks', headers: { 'last-event-id': '4' } });
+  assert.equal(response.status, 200);
+  assert.equal(response.headers['Content-Type'], 'text/event-stream');
+  assert.deepEqual(await collect(response.body as AsyncIterable<string>), ['id: 5\ndata: {"tick":5}\n\n']);
+});
+
+test('answers 406 when the client does not accept event streams', async () => {
+  const response = await handler({ method: 'GET', url: '/ticks', headers: { accept: 'application/json' } });
+  assert.equal(response.status, 406);
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { initTRPC } from '@trpc/server';
+import typia from 'typia';
+import {
+  createOpenApiHandler,
+  createParser,
+  generateOpenApiDocument,
+  getOpenApiRouterIssues,
+  OpenApiRouterValidationError,
+  validateOpenApiRouter,
+  type OpenApiMeta,
+} from '../src';
+import { appRouter } from './fixtures';
+
+const t = initTRPC.meta<OpenApiMeta>().create();
+
+interface ProjectInput {
+  id?: string;
+  filter: { status: string };
+}
+
+const projectParser = createParser(typia.createAssert<ProjectInput>(), typia.json.schemas<[ProjectInput], '3.1'>());
+const nameParser = createParser(typia.createAssert<string>(), typia.json.schemas<[string], '3.1'>());
+
+const brokenRouter = t.router({
+  project: t.procedure
+    .meta({ openapi: { method: 'GET', path: '/projects/{projectId}/{id}', headers: { tenant: 'X-Tenant' } } })
+    .input(projectParser)
+    .query(() => null),
+  projectFilter: t.procedure
+    .meta({ openapi: { method: 'GET', path: '/projects/{a}/{filter}' } })
+    .input(projectParser)
+    .query(() => null),
+  search: t.procedure
+    .meta({ openapi: { method: 'GET', path: 'search' } })
+    .input(nameParser)
+    .query(() => null),
+  a: t.router({
+    b: t.procedure.meta({ openapi: { method: 'POST', path: '/a' } }).mutation(() => null),
+  }),
+  a_b: t.procedure.meta({ openapi: { method: 'POST', path: '/b' } }).mutation(() => null),
+  events: t.procedure
+    .meta({ openapi: { method: 'POST', path: '/events' } })
+    .subscription(async function* () {
+      yield 1;
+    }),
+});
+
+test('reports every problem in the metadata', () => {
+  const issues = getOpenApiRouterIssues(brokenRouter).map(({ code, procedurePath }) => `${procedurePath} ${code}`);
+  assert.deepEqual(issues, [
+    'project UNKNOWN_PATH_PARAMETER',
+    'project INVALID_PATH_PARAMETER',
+    'project UNKNOWN_MAPPED_PARAMETER',
+    'projectFilter UNKNOWN_PATH_PARAMETER',
+    'projectFilter INVALID_PATH_PARAMETER',
+    'projectFilter DUPLICATE_ROUTE',
+    'search INVALID_PATH',
+    'search NON_OBJECT_INPUT',
+    'a_b DUPLICATE_OPERATION_ID',
+    'events UNSUPPORTED_PROCEDURE_TYPE',
+  ]);
+});
+
+test('throws one aggregated error', () => {
+  assert.throws(
+    () => validateOpenApiRouter(brokenRouter),
+    (error: unknown) =>
+      error instanceof OpenApiRouterValidationError &&
+      error.issues.length === 10 &&
+      error.message.startsWith('Invalid OpenAPI metadata (10 issues):\n  - project: ')
+  );
+  assert.doesNotThrow(() => validateOpenApiRouter(appRouter));
+});
+
+test('runs in strict mode only', () => {
+  const options = { title: 'Broken', version: '1.0.0', baseUrl: '/' };
+  assert.throws(() => generateOpenApiDocument(brokenRouter, { ...options, strict: true }), OpenApiRouterValidationError);
+  assert.throws(
+    () => createOpenApiHandler({ router: brokenRouter, createContext: () => ({}), strict: true }),
+    OpenApiRouterValidationError
+  );
+  assert.doesNotThrow(() => createOpenApiHandler({ router: appRouter, createContext: () => ({}), strict: true }));
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toYaml } from '../src';
+
+test('writes nested mappings and sequences in block style', () => {
+  assert.equal(
+    toYaml({ info: { title: 'API', version: '1.0.0' }, tags: [{ name: 'users' }], servers: [] }),
+    ['info:', '  title: API', '  version: "1.0.0"', 'tags:', '  - name: users', 'servers: []', ''].join('\n')
+  );
+});
+
+test('quotes strings that plain style would misread', () => {
+  const yaml = toYaml({
+    special: ['.inf', '.NaN', 'y', 'No', 'null', '~', '123', '', 'trailing ', 'a: b', '#comment'],
+    plain: ['/users/me', 'plain text', 'snake_case'],
+  });
+  assert.equal(
+    yaml,
+    [
+      'special:',
+      '  - ".inf"',
+      '  - ".NaN"',
+      '  - "y"',
+      '  - "No"',
+      '  - "null"',
+      '  - "~"',
+      '  - "123"',
+      '  - ""',
+      '  - "trailing "',
+      '  - "a: b"',
+      '  - "#comment"',
+      'plain:',
+      '  - /users/me',
+      '  - plain text',
+      '  - snake_case',
+      '',
+    ].join('\n')
+  );
+});
+
+test('keeps numbers, booleans and null unquoted', () => {
+  assert.equal(toYaml({ a: 1.5, b: false, c: null }), 'a: 1.5\nb: false\nc: null\n');
+});